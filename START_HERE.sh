@@ -27,12 +27,14 @@ if [ ! -f ".env" ]; then
     cat > .env << 'EOF'
 # FHEVM 0.9 Configuration
 VITE_CONTRACT_ADDRESS=0xYourContractAddressHere
+# Block the contract was deployed in; without it only recent logs are scanned
+VITE_DEPLOY_BLOCK=0
 VITE_SEPOLIA_RPC_URL=https://ethereum-sepolia-rpc.publicnode.com
 VITE_SEPOLIA_CHAIN_ID=11155111
 EOF
     echo "â
  .env file created"
-    echo "   â ï¸  Remember to update VITE_CONTRACT_ADDRESS after deployment!"
+    echo "   â ï¸  Remember to update VITE_CONTRACT_ADDRESS and VITE_DEPLOY_BLOCK after deployment!"
     echo ""
 fi
 
@@ -349,7 +349,13 @@ contract TimeMarketplaceFHE is Ownable, ReentrancyGuard, ZamaEthereumConfig {
         require(offer1.isActive && offer2.isActive, "Offers must be active");
 
         // FHE comparison (greater than)
-        return FHE.gt(offer1.encryptedPrice, offer2.encryptedPrice);
+        ebool isHigher = FHE.gt(offer1.encryptedPrice, offer2.encryptedPrice);
+
+        // Let the caller user-decrypt the result; neither price handle is exposed
+        FHE.allowThis(isHigher);
+        FHE.allow(isHigher, msg.sender);
+
+        return isHigher;
     }
 
     /**
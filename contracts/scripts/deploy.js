@@ -27,8 +27,10 @@ async function main() {
   console.log("Waiting for deployment to finalize...");
   await contract.waitForDeployment();
   const contractAddress = await contract.getAddress();
+  const deployReceipt = await contract.deploymentTransaction().wait();
 
   console.log("\nContract deployed successfully at:", contractAddress);
+  console.log("Deploy block:", deployReceipt.blockNumber);
   console.log("========================================\n");
 
   console.log("Verifying initial state...");
@@ -47,7 +49,11 @@ async function main() {
 
   console.log("\nNext steps:");
   console.log("1. Update the frontend with CONTRACT_ADDRESS =", contractAddress);
-  console.log("2. Export VITE_CONTRACT_ADDRESS in the frontend .env");
+  console.log(
+    "2. Export VITE_CONTRACT_ADDRESS and VITE_DEPLOY_BLOCK =",
+    deployReceipt.blockNumber,
+    "in the frontend .env"
+  );
   console.log("3. (Optional) Verify the contract:");
   console.log(
     "   npx hardhat verify --network sepolia",
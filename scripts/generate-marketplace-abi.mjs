@@ -0,0 +1,27 @@
+// Regenerates src/lib/marketplace-abi.ts from the compiled Hardhat artifact.
+// Run `npm run generate:abi` after `npm run compile` in contracts/.
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const artifactPath = resolve(
+  root,
+  "contracts/artifacts/contracts/TimeMarketplaceFHE.sol/TimeMarketplaceFHE.json",
+);
+const outputPath = resolve(root, "src/lib/marketplace-abi.ts");
+
+const { abi, contractName } = JSON.parse(readFileSync(artifactPath, "utf8"));
+
+const source = `/**
+ * ${contractName} ABI
+ * Generated by scripts/generate-marketplace-abi.mjs - do not edit by hand.
+ */
+
+export const marketplaceAbi = ${JSON.stringify(abi, null, 2)} as const;
+
+export type MarketplaceAbi = typeof marketplaceAbi;
+`;
+
+writeFileSync(outputPath, source);
+console.log(`Wrote ${abi.length} ABI entries to ${outputPath}`);
@@ -12,6 +12,7 @@ import MyPurchases from "./pages/MyPurchases";
 import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 import { WalletProvider } from "@/hooks/use-wallet";
+import { NetworkProvider } from "@/hooks/use-network";
 
 const queryClient = new QueryClient();
 
@@ -21,20 +22,22 @@ const App = () => (
       <Toaster />
       <Sonner />
       <WalletProvider>
-        <BrowserRouter>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<Marketplace />} />
-              <Route path="/create" element={<CreateOffer />} />
-              <Route path="/offer/:id" element={<OfferDetail />} />
-              <Route path="/my-offers" element={<MyOffers />} />
-              <Route path="/my-purchases" element={<MyPurchases />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Layout>
-        </BrowserRouter>
+        <NetworkProvider>
+          <BrowserRouter>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<Marketplace />} />
+                <Route path="/create" element={<CreateOffer />} />
+                <Route path="/offer/:id" element={<OfferDetail />} />
+                <Route path="/my-offers" element={<MyOffers />} />
+                <Route path="/my-purchases" element={<MyPurchases />} />
+                <Route path="/dashboard" element={<Dashboard />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Layout>
+          </BrowserRouter>
+        </NetworkProvider>
       </WalletProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { formatEther } from "ethers";
+import { AlertCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { CreatorSale } from "@/lib/contract-client";
+import {
+  bucketSales,
+  MAX_SALES_BUCKETS,
+  type CreatorEarnings,
+  type SalesPeriod,
+} from "@/lib/creator-analytics";
+
+// Net and fee are stacked, so each bar's height is the gross sales of the period
+const chartConfig = {
+  netEth: { label: "Net payout", color: "hsl(var(--primary))" },
+  feeEth: { label: "Platform fee", color: "hsl(var(--cyber-pink))" },
+} satisfies ChartConfig;
+
+const formatEth = (wei: bigint) => `${Number(formatEther(wei)).toFixed(4)} ETH`;
+
+type CreatorEarningsPanelProps = {
+  sales: CreatorSale[];
+  earnings: CreatorEarnings;
+};
+
+export const CreatorEarningsPanel = ({ sales, earnings }: CreatorEarningsPanelProps) => {
+  const [period, setPeriod] = useState<SalesPeriod>("day");
+  const buckets = useMemo(() => bucketSales(sales, period), [sales, period]);
+
+  if (!sales.length) {
+    return (
+      <Card className="p-6 border-dashed border-border/60 text-sm text-muted-foreground">
+        No sales yet. Earnings appear here once buyers purchase slots of your offers.
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-gradient-card backdrop-blur border-border/40 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <h3 className="font-semibold text-lg">Sales over time</h3>
+            <p className="text-xs text-muted-foreground">
+              Last {MAX_SALES_BUCKETS[period]} {period === "day" ? "days" : "weeks"}, UTC
+            </p>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={period}
+            onValueChange={(value) => value && setPeriod(value as SalesPeriod)}
+          >
+            <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+            <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+          <BarChart data={buckets} margin={{ left: 4, right: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} width={56} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                      </span>
+                      <span className="font-mono">{Number(value).toFixed(6)} ETH</span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="netEth" stackId="sales" fill="var(--color-netEth)" />
+            <Bar
+              dataKey="feeEth"
+              stackId="sales"
+              fill="var(--color-feeEth)"
+              radius={[4, 4, 0, 0]}
+            />
+          </BarChart>
+        </ChartContainer>
+      </Card>
+
+      <Card className="p-6 bg-gradient-card backdrop-blur border-border/40 space-y-4">
+        <h3 className="font-semibold text-lg">Earnings by offer</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Offer</TableHead>
+              <TableHead className="text-right">Slots</TableHead>
+              <TableHead className="text-right">Buyers</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Fee</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {earnings.byOffer.map((row) => (
+              <TableRow key={row.offerId.toString()}>
+                <TableCell>
+                  <Link to={`/offer/${row.offerId.toString()}`} className="hover:underline">
+                    {row.offer?.title ?? `Offer #${row.offerId.toString()}`}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-right">{row.slotsSold.toString()}</TableCell>
+                <TableCell className="text-right">{row.buyers}</TableCell>
+                <TableCell className="text-right font-mono">{formatEth(row.grossWei)}</TableCell>
+                <TableCell className="text-right font-mono">{formatEth(row.feeWei)}</TableCell>
+                <TableCell className="text-right font-mono text-primary">
+                  {formatEth(row.netWei)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {earnings.hasEstimatedFees && (
+          <p className="flex items-start gap-2 text-xs text-muted-foreground">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            The RPC node could not read the fee rate at some purchase blocks, so the current
+            platform fee was used for them. An archive node gives exact figures.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
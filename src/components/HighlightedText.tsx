@@ -0,0 +1,20 @@
+import { highlightMatches } from "@/lib/offer-search";
+
+type HighlightedTextProps = {
+  text: string;
+  terms?: string[];
+};
+
+export const HighlightedText = ({ text, terms }: HighlightedTextProps) => (
+  <>
+    {highlightMatches(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded-sm bg-primary/25 text-foreground px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </>
+);
@@ -1,13 +1,49 @@
 import { Link, useLocation } from "react-router-dom";
-import { Shield, Wallet, Menu, X } from "lucide-react";
+import { Shield, Wallet, Menu, X, AlertTriangle, LogOut, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WalletPickerDialog } from "@/components/WalletPickerDialog";
+import { TransactionActivityPanel } from "@/components/TransactionActivityPanel";
+import { PurchaseCartSheet } from "@/components/PurchaseCartSheet";
 import { formatAccount, useWallet } from "@/hooks/use-wallet";
+import { useNetwork } from "@/hooks/use-network";
+import { useMarketplaceEventSync } from "@/hooks/use-marketplace-queries";
+import { useSavedSearchAlerts } from "@/hooks/use-saved-search-alerts";
+import { useTransactionActivity } from "@/hooks/use-transactions";
+import type { NetworkKey } from "@/lib/networks";
 
 export const Layout = ({ children }: { children: React.ReactNode }) => {
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const { account, connectWallet, isConnecting } = useWallet();
+  const {
+    account,
+    activeWallet,
+    openWalletPicker,
+    disconnectWallet,
+    isConnecting,
+    isWrongNetwork,
+    isSwitchingChain,
+    switchNetwork,
+  } = useWallet();
+  const { network, networks, isSwitching, selectNetwork } = useNetwork();
+  useMarketplaceEventSync();
+  useSavedSearchAlerts();
+  useTransactionActivity();
   
   const navItems = [
     { path: "/", label: "Marketplace" },
@@ -17,6 +53,25 @@ export const Layout = ({ children }: { children: React.ReactNode }) => {
     { path: "/dashboard", label: "Dashboard" },
   ];
 
+  const networkSelect = (className: string) => (
+    <Select
+      value={network.key}
+      onValueChange={(key) => selectNetwork(key as NetworkKey)}
+      disabled={isSwitching}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Network" />
+      </SelectTrigger>
+      <SelectContent>
+        {networks.map((item) => (
+          <SelectItem key={item.key} value={item.key}>
+            {item.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -50,20 +105,62 @@ export const Layout = ({ children }: { children: React.ReactNode }) => {
           </nav>
 
           <div className="flex items-center gap-2">
-            <Button
-              variant="cyber"
-              size="sm"
-              className="hidden md:flex"
-              onClick={connectWallet}
-              disabled={isConnecting}
-            >
-              <Wallet className="h-4 w-4 mr-2" />
-              {account
-                ? formatAccount(account)
-                : isConnecting
-                ? "Connecting..."
-                : "Connect Wallet"}
-            </Button>
+            {networkSelect("hidden md:flex h-9 w-[160px]")}
+            <PurchaseCartSheet />
+            <TransactionActivityPanel />
+            {account ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant={isWrongNetwork ? "destructive" : "cyber"}
+                    size="sm"
+                    className="hidden md:flex"
+                  >
+                    {isWrongNetwork ? (
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Wallet className="h-4 w-4 mr-2" />
+                    )}
+                    {isWrongNetwork ? "Wrong Network" : formatAccount(account)}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="font-mono text-xs">
+                    {activeWallet ? `${activeWallet.name} · ` : ""}
+                    {formatAccount(account)}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {isWrongNetwork && (
+                    <DropdownMenuItem
+                      onClick={() => switchNetwork()}
+                      disabled={isSwitchingChain}
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      Switch to {network.name}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => openWalletPicker()}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Change Wallet
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={disconnectWallet}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Disconnect
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Button
+                variant="cyber"
+                size="sm"
+                className="hidden md:flex"
+                onClick={() => openWalletPicker()}
+                disabled={isConnecting}
+              >
+                <Wallet className="h-4 w-4 mr-2" />
+                {isConnecting ? "Connecting..." : "Connect Wallet"}
+              </Button>
+            )}
             
             {/* Mobile Menu Toggle */}
             <Button
@@ -99,30 +196,61 @@ export const Layout = ({ children }: { children: React.ReactNode }) => {
                   {item.label}
                 </Link>
               ))}
-              <Button
-                variant="cyber"
-                size="sm"
-                className="w-full"
-                onClick={async () => {
-                  await connectWallet();
-                  setMobileMenuOpen(false);
-                }}
-                disabled={isConnecting}
-              >
-                <Wallet className="h-4 w-4 mr-2" />
-                {account
-                  ? formatAccount(account)
-                  : isConnecting
-                  ? "Connecting..."
-                  : "Connect Wallet"}
-              </Button>
+              {networkSelect("w-full")}
+              {account ? (
+                <>
+                  {isWrongNetwork && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => switchNetwork()}
+                      disabled={isSwitchingChain}
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      Switch to {network.name}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => {
+                      disconnectWallet();
+                      setMobileMenuOpen(false);
+                    }}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Disconnect {formatAccount(account)}
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="cyber"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setMobileMenuOpen(false);
+                    openWalletPicker();
+                  }}
+                  disabled={isConnecting}
+                >
+                  <Wallet className="h-4 w-4 mr-2" />
+                  {isConnecting ? "Connecting..." : "Connect Wallet"}
+                </Button>
+              )}
             </div>
           </nav>
         )}
       </header>
 
+      <WalletPickerDialog />
+
       {/* Main Content */}
-      <main className="container px-4 py-8">{children}</main>
+      {/* Remount pages on network change so they reload from the new chain */}
+      <main key={network.key} className="container px-4 py-8">
+        {children}
+      </main>
 
       {/* Footer */}
       <footer className="border-t border-border/40 bg-card/50 backdrop-blur mt-auto">
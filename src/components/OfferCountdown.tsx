@@ -0,0 +1,12 @@
+import { useNow } from "@/hooks/use-now";
+import { formatCountdown } from "@/lib/offers";
+
+type OfferCountdownProps = {
+  expiresAt: bigint;
+};
+
+// Ticks on its own so a running countdown re-renders one card, not the list
+export const OfferCountdown = ({ expiresAt }: OfferCountdownProps) => {
+  const now = useNow();
+  return <>{formatCountdown(Math.max(Number(expiresAt) - now, 0))}</>;
+};
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { ChevronDown, SlidersHorizontal, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { SavedSearchesMenu } from "@/components/SavedSearchesMenu";
+import {
+  countActiveFilters,
+  OFFER_PRIVACY_LABELS,
+  OFFER_SORT_LABELS,
+  type OfferFilters,
+  type OfferPrivacy,
+  type OfferSort,
+} from "@/lib/offer-filters";
+
+type OfferFilterBarProps = {
+  filters: OfferFilters;
+  resultCount: number;
+  onChange: (patch: Partial<OfferFilters>) => void;
+  onReset: () => void;
+  /** Navigate to a saved search's query string */
+  onApplySearch: (query: string) => void;
+};
+
+export const OfferFilterBar = ({
+  filters,
+  resultCount,
+  onChange,
+  onReset,
+  onApplySearch,
+}: OfferFilterBarProps) => {
+  const activeCount = countActiveFilters(filters);
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+
+  const rangeInput = (
+    key: "minPrice" | "maxPrice" | "minDuration" | "maxDuration" | "minSlots",
+    placeholder: string,
+    inputMode: "decimal" | "numeric",
+  ) => (
+    <Input
+      value={filters[key]}
+      onChange={(e) => onChange({ [key]: e.target.value })}
+      placeholder={placeholder}
+      inputMode={inputMode}
+      className="bg-background/50"
+    />
+  );
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Filters
+              {activeCount > 0 && (
+                <Badge variant="cyber" className="ml-2 px-1.5">
+                  {activeCount}
+                </Badge>
+              )}
+              <ChevronDown
+                className={`h-4 w-4 ml-1 transition-transform ${isOpen ? "rotate-180" : ""}`}
+              />
+            </Button>
+          </CollapsibleTrigger>
+          <SavedSearchesMenu filters={filters} onApply={onApplySearch} />
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={onReset}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+          <span className="text-sm text-muted-foreground">
+            {resultCount} offer{resultCount === 1 ? "" : "s"}
+          </span>
+        </div>
+
+        <Select value={filters.sort} onValueChange={(value) => onChange({ sort: value as OfferSort })}>
+          <SelectTrigger className="h-9 w-[200px]">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OFFER_SORT_LABELS) as OfferSort[]).map((sort) => (
+              <SelectItem key={sort} value={sort}>
+                {OFFER_SORT_LABELS[sort]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <CollapsibleContent>
+        <Card className="p-4 mb-6 bg-gradient-card backdrop-blur border-border/40">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Price (ETH)</Label>
+              <div className="flex items-center gap-2">
+                {rangeInput("minPrice", "Min", "decimal")}
+                <span className="text-muted-foreground">–</span>
+                {rangeInput("maxPrice", "Max", "decimal")}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Duration (days)</Label>
+              <div className="flex items-center gap-2">
+                {rangeInput("minDuration", "Min", "numeric")}
+                <span className="text-muted-foreground">–</span>
+                {rangeInput("maxDuration", "Max", "numeric")}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Available slots (at least)</Label>
+              {rangeInput("minSlots", "Any", "numeric")}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Privacy</Label>
+              <Select
+                value={filters.privacy}
+                onValueChange={(value) => onChange({ privacy: value as OfferPrivacy })}
+              >
+                <SelectTrigger className="bg-background/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OFFER_PRIVACY_LABELS) as OfferPrivacy[]).map((privacy) => (
+                    <SelectItem key={privacy} value={privacy}>
+                      {OFFER_PRIVACY_LABELS[privacy]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-creator">Creator address</Label>
+              <Input
+                id="filter-creator"
+                value={filters.creator}
+                onChange={(e) => onChange({ creator: e.target.value })}
+                placeholder="0x..."
+                className="bg-background/50 font-mono"
+              />
+            </div>
+
+            <div className="flex items-center gap-3 pt-6">
+              <Switch
+                id="filter-expiring"
+                checked={filters.expiringSoon}
+                onCheckedChange={(checked) => onChange({ expiringSoon: checked })}
+              />
+              <Label htmlFor="filter-expiring">Expiring within 48 hours</Label>
+            </div>
+          </div>
+        </Card>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
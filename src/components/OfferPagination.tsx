@@ -0,0 +1,71 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+type OfferPaginationProps = {
+  page: number;
+  pageCount: number;
+  /** Link target for a page, so pages can be opened or shared directly */
+  getHref: (page: number) => string;
+  onPageChange: (page: number) => void;
+};
+
+// First, last and the current page with one neighbour on each side; null marks a gap
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((value) => value >= 1 && value <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((value, index) =>
+    index > 0 && value - sorted[index - 1] > 1 ? [null, value] : [value],
+  );
+};
+
+export const OfferPagination = ({ page, pageCount, getHref, onPageChange }: OfferPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const go = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <Pagination className="mt-8">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={getHref(Math.max(page - 1, 1))}
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((value, index) =>
+          value === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={value}>
+              <PaginationLink href={getHref(value)} onClick={go(value)} isActive={value === page}>
+                {value}
+              </PaginationLink>
+            </PaginationItem>
+          ),
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href={getHref(Math.min(page + 1, pageCount))}
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
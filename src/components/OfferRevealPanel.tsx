@@ -0,0 +1,102 @@
+import { formatEther } from "ethers";
+import { CheckCircle2, Circle, Loader2, RotateCcw, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useOfferReveal } from "@/hooks/use-offer-reveal";
+import { REVEAL_STAGES, type RevealStage } from "@/lib/offer-reveal";
+
+const STEPS: { stage: RevealStage; label: string }[] = [
+  { stage: "requesting", label: "Request reveal on-chain" },
+  { stage: "requested", label: "Reveal request confirmed" },
+  { stage: "decrypted", label: "Public decryption by the relayer" },
+  { stage: "resolving", label: "Submit decrypted values" },
+  { stage: "resolved", label: "Values published on-chain" },
+];
+
+type OfferRevealPanelProps = {
+  offerId: bigint;
+  onResolved?: () => void;
+};
+
+/**
+ * Creator-facing control for publicly revealing an offer's encrypted price and slots
+ */
+export const OfferRevealPanel = ({ offerId, onResolved }: OfferRevealPanelProps) => {
+  const { progress, isRunning, error, run, reset } = useOfferReveal(offerId, onResolved);
+
+  const reached = progress ? REVEAL_STAGES.indexOf(progress.stage) : -1;
+  const isResolved = progress?.stage === "resolved";
+  const isPending = !!progress && !isResolved;
+
+  return (
+    <Card className="p-6 bg-gradient-card backdrop-blur border-border/40 space-y-4">
+      <div className="flex items-start gap-3">
+        <Unlock className="h-5 w-5 text-primary shrink-0 mt-1" />
+        <div>
+          <h4 className="font-semibold">Public Reveal</h4>
+          <p className="text-xs text-muted-foreground">
+            Decrypt the encrypted price and slots for everyone and publish them on-chain.
+          </p>
+        </div>
+      </div>
+
+      {progress && (
+        <ol className="space-y-2 text-sm">
+          {STEPS.map(({ stage, label }, index) => {
+            const done = index <= reached;
+            const active = isRunning && index === reached + 1;
+            return (
+              <li key={stage} className="flex items-center gap-2">
+                {done ? (
+                  <CheckCircle2 className="h-4 w-4 text-primary" />
+                ) : active ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground" />
+                )}
+                <span className={done ? "" : "text-muted-foreground"}>{label}</span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {progress?.revealedPrice && progress.revealedSlots && (
+        <div className="rounded-md border border-primary/30 bg-primary/5 p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Revealed price</span>
+            <span className="font-mono">{formatEther(BigInt(progress.revealedPrice))} ETH</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Revealed slots</span>
+            <span className="font-mono">{progress.revealedSlots}</span>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button variant="cyber" className="flex-1" onClick={run} disabled={isRunning}>
+          {isRunning ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Revealing...
+            </>
+          ) : isPending ? (
+            "Resume Reveal"
+          ) : isResolved ? (
+            "Reveal Again"
+          ) : (
+            "Reveal Publicly"
+          )}
+        </Button>
+        {isPending && !isRunning && (
+          <Button variant="outline" size="icon" onClick={reset} title="Discard reveal progress">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,29 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import {
+  formatCountdown,
+  OFFER_STATUS_LABELS,
+  type OfferStatus,
+  type OfferStatusInfo,
+} from "@/lib/offers";
+
+const STATUS_VARIANTS: Record<OfferStatus, BadgeProps["variant"]> = {
+  active: "default",
+  "sold-out": "secondary",
+  expired: "destructive",
+  deactivated: "secondary",
+  revealed: "cyber",
+};
+
+type OfferStatusBadgeProps = {
+  info: OfferStatusInfo;
+  /** Append the time left while the offer is still purchasable */
+  showCountdown?: boolean;
+  className?: string;
+};
+
+export const OfferStatusBadge = ({ info, showCountdown = false, className }: OfferStatusBadgeProps) => (
+  <Badge variant={STATUS_VARIANTS[info.status]} className={className}>
+    {OFFER_STATUS_LABELS[info.status]}
+    {showCountdown && info.isPurchasable && ` · ${formatCountdown(info.secondsLeft)} left`}
+  </Badge>
+);
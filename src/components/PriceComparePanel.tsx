@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Loader2, Scale, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { usePriceComparison } from "@/hooks/use-price-comparison";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+import type { PriceComparison } from "@/lib/price-comparison";
+import type { Offer } from "@/types/contract";
+
+type PriceComparePanelProps = {
+  selected: Offer[];
+  onRemove: (offerId: bigint) => void;
+  onClear: () => void;
+};
+
+const describeResult = (comparison: PriceComparison, offers: Offer[]) => {
+  const title = (id: string) =>
+    offers.find((offer) => offer.id.toString() === id)?.title ?? `Offer #${id}`;
+  const first = title(comparison.firstId);
+  const second = title(comparison.secondId);
+
+  return comparison.firstIsHigher
+    ? `${second} is cheaper than ${first}`
+    : `${first} is cheaper than or equal to ${second}`;
+};
+
+/**
+ * Sticky bar for comparing the encrypted prices of two selected offers
+ */
+export const PriceComparePanel = ({ selected, onRemove, onClear }: PriceComparePanelProps) => {
+  const { toast } = useToast();
+  const { compare, getCached, isComparing, isAvailable } = usePriceComparison();
+  const [result, setResult] = useState<PriceComparison | null>(null);
+
+  const [a, b] = selected;
+
+  useEffect(() => {
+    setResult(a && b ? getCached(a.id, b.id) : null);
+  }, [a, b, getCached]);
+
+  if (!selected.length) return null;
+
+  const handleCompare = async () => {
+    if (!a || !b) return;
+    try {
+      const comparison = await compare(a.id, b.id);
+      if (comparison) setResult(comparison);
+    } catch (error) {
+      toast({
+        title: "Comparison failed",
+        description: formatMarketplaceError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="sticky bottom-4 z-40 p-4 border-primary/40 bg-background/95 backdrop-blur shadow-glow">
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex items-center gap-2 shrink-0">
+          <Scale className="h-5 w-5 text-primary" />
+          <span className="font-semibold">Compare confidentially</span>
+        </div>
+
+        <div className="flex flex-1 flex-wrap gap-2">
+          {selected.map((offer) => (
+            <span
+              key={offer.id.toString()}
+              className="flex items-center gap-1 rounded-full border border-border/60 px-3 py-1 text-sm"
+            >
+              {offer.title}
+              <button
+                type="button"
+                onClick={() => onRemove(offer.id)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${offer.title} from comparison`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {selected.length < 2 && (
+            <span className="text-sm text-muted-foreground self-center">
+              Select one more offer to compare.
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+          <Button
+            variant="cyber"
+            size="sm"
+            onClick={handleCompare}
+            disabled={selected.length < 2 || isComparing || !!result || !isAvailable}
+          >
+            {isComparing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Comparing...
+              </>
+            ) : (
+              "Compare Prices"
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {!isAvailable && !result && (
+        <p className="mt-3 text-sm text-muted-foreground">
+          This marketplace contract does not grant access to comparison results, so price
+          comparison is unavailable.
+        </p>
+      )}
+
+      {result && (
+        <p className="mt-3 text-sm">
+          <span className="font-semibold text-primary">{describeResult(result, selected)}</span>
+          <span className="text-muted-foreground">
+            {" "}
+            · decrypted for your account, prices stay encrypted
+          </span>
+        </p>
+      )}
+    </Card>
+  );
+};
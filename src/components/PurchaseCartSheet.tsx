@@ -0,0 +1,284 @@
+import { Link } from "react-router-dom";
+import { formatEther } from "ethers";
+import { ExternalLink, Loader2, ShoppingCart, Trash2 } from "lucide-react";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { useCartCheckout, usePurchaseCart } from "@/hooks/use-purchase-cart";
+import { getExplorerTxUrl } from "@/lib/networks";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+import {
+  CART_PROBLEM_LABELS,
+  cartItemKey,
+  CHECKOUT_STATUS_LABELS,
+  type CartItem,
+  type CartItemValidation,
+  type CheckoutItemProgress,
+  type CheckoutItemStatus,
+} from "@/lib/purchase-cart";
+
+const STATUS_VARIANTS: Record<CheckoutItemStatus, BadgeProps["variant"]> = {
+  queued: "secondary",
+  simulating: "cyber",
+  "awaiting-signature": "cyber",
+  confirming: "cyber",
+  purchased: "default",
+  failed: "destructive",
+  skipped: "secondary",
+};
+
+const IN_FLIGHT: CheckoutItemStatus[] = ["simulating", "awaiting-signature", "confirming"];
+
+const itemTotalWei = (item: CartItem) => BigInt(item.unitPriceWei) * BigInt(item.quantity);
+
+const ValidationNote = ({ validation }: { validation: CartItemValidation }) => {
+  const { item, offer, problem, priceChanged } = validation;
+  return (
+    <>
+      {problem && (
+        <p className="text-xs text-destructive">
+          {CART_PROBLEM_LABELS[problem]}
+          {problem === "insufficient-slots" && offer && ` (${offer.availableSlots} available)`}
+        </p>
+      )}
+      {priceChanged && offer && (
+        <p className="text-xs text-cyber-pink">
+          Price changed from {formatEther(item.unitPriceWei)} to {formatEther(offer.publicPrice)}{" "}
+          ETH per slot
+        </p>
+      )}
+    </>
+  );
+};
+
+const CheckoutRow = ({ item, progress }: { item: CartItem; progress?: CheckoutItemProgress }) => {
+  const status = progress?.status ?? "queued";
+  const explorerUrl = progress?.txHash ? getExplorerTxUrl(progress.txHash) : null;
+  return (
+    <li className="space-y-1 rounded-lg border border-border/40 p-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium leading-tight">
+          {item.title} × {item.quantity}
+        </p>
+        <Badge variant={STATUS_VARIANTS[status]} className="shrink-0">
+          {IN_FLIGHT.includes(status) && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {CHECKOUT_STATUS_LABELS[status]}
+        </Badge>
+      </div>
+      {explorerUrl && (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-accent hover:underline"
+        >
+          View transaction
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+      {progress?.error && (
+        <p className="text-xs text-destructive break-words">
+          {formatMarketplaceError(progress.error)}
+        </p>
+      )}
+    </li>
+  );
+};
+
+export const PurchaseCartSheet = () => {
+  const { toast } = useToast();
+  const { items, setQuantity, removeItems } = usePurchaseCart();
+  const {
+    validations,
+    checkoutItems,
+    progress,
+    isValidating,
+    isCheckingOut,
+    revalidate,
+    checkout,
+  } = useCartCheckout(items);
+
+  const totalWei = items.reduce((sum, item) => sum + itemTotalWei(item), 0n);
+  const blockedCount = items.filter((item) => validations.get(cartItemKey(item))?.problem).length;
+  const isBusy = isValidating || isCheckingOut;
+
+  const checkAvailability = () => {
+    revalidate().catch((error) => {
+      toast({
+        title: "Could not check availability",
+        description: formatMarketplaceError(error),
+        variant: "destructive",
+      });
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && items.length && !isCheckingOut) checkAvailability();
+  };
+
+  const handleCheckout = async () => {
+    try {
+      const outcome = await checkout();
+      if (!outcome) return;
+      if (outcome.status === "prices-changed") {
+        toast({
+          title: "Prices changed",
+          description: `${outcome.changed.length} item(s) changed price. Review the new total, then check out again.`,
+        });
+        return;
+      }
+      const outcomes = [...outcome.results.values()];
+      const purchased = outcomes.filter((outcome) => outcome.status === "purchased").length;
+      const failed = outcomes.length - purchased;
+      toast({
+        title: failed ? "Checkout partly completed" : "Checkout complete",
+        description: failed
+          ? `${purchased} of ${outcomes.length} item(s) purchased. Failed items stay in your cart.`
+          : `${purchased} item(s) purchased.`,
+        variant: failed && !purchased ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Checkout failed",
+        description: formatMarketplaceError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Purchase cart">
+          <ShoppingCart className="h-4 w-4" />
+          {items.length > 0 && <span className="ml-1 text-xs">{items.length}</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Cart</SheetTitle>
+          <SheetDescription>
+            Availability is checked again before checkout. Each offer is bought in its own
+            transaction.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {checkoutItems.length > 0 && (
+            <div className="space-y-2 mb-4">
+              <p className="text-sm font-semibold">Latest checkout</p>
+              <ul className="space-y-2">
+                {checkoutItems.map((item) => (
+                  <CheckoutRow
+                    key={cartItemKey(item)}
+                    item={item}
+                    progress={progress.get(cartItemKey(item))}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your cart is empty.</p>
+          ) : (
+            <ul className="space-y-3">
+              {items.map((item) => {
+                const validation = validations.get(cartItemKey(item));
+                return (
+                  <li
+                    key={cartItemKey(item)}
+                    className="space-y-2 rounded-lg border border-border/40 p-3"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <Link
+                        to={`/offer/${item.offerId}`}
+                        className="text-sm font-medium leading-tight hover:underline"
+                      >
+                        {item.title}
+                      </Link>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 shrink-0"
+                        aria-label={`Remove ${item.title}`}
+                        disabled={isCheckingOut}
+                        onClick={() => removeItems([item])}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Input
+                        type="number"
+                        min="1"
+                        value={item.quantity}
+                        onChange={(e) => setQuantity(item, parseInt(e.target.value) || 1)}
+                        disabled={isCheckingOut}
+                        className="h-8 w-20 bg-background/50"
+                        aria-label="Quantity"
+                      />
+                      <span className="text-muted-foreground">
+                        × {formatEther(item.unitPriceWei)} ETH
+                      </span>
+                      <span className="ml-auto font-medium">
+                        {formatEther(itemTotalWei(item))} ETH
+                      </span>
+                    </div>
+                    {validation && <ValidationNote validation={validation} />}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+
+        {items.length > 0 && (
+          <div className="space-y-3 border-t border-border/40 pt-4">
+            <div className="flex justify-between">
+              <span className="font-semibold">Total</span>
+              <span className="text-lg font-bold text-primary">{formatEther(totalWei)} ETH</span>
+            </div>
+            {blockedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {blockedCount} item(s) cannot be purchased and will be skipped.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={isBusy}
+                onClick={checkAvailability}
+              >
+                {isValidating && !isCheckingOut && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Check availability
+              </Button>
+              <Button
+                variant="cyber"
+                className="flex-1"
+                disabled={isBusy || blockedCount === items.length}
+                onClick={handleCheckout}
+              >
+                {isCheckingOut && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Checkout
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { formatEther } from "ethers";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { useDecrypt } from "@/hooks/useFHE";
+import { fetchEncryptedHandles, getContractAddress } from "@/lib/contract-client";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+
+type RevealedTerms = {
+  price: bigint;
+  duration: bigint;
+  slots: bigint;
+};
+
+type RevealOfferTermsProps = {
+  offerId: bigint;
+  className?: string;
+};
+
+/**
+ * "Reveal to me" action for an offer's encrypted price, duration and slots.
+ * Only accounts granted access by the contract (the creator of an FHE offer) can decrypt.
+ */
+export const RevealOfferTerms = ({ offerId, className }: RevealOfferTermsProps) => {
+  const { toast } = useToast();
+  const { account, ensureNetwork } = useWallet();
+  const { userDecrypt, isDecrypting } = useDecrypt();
+  const [terms, setTerms] = useState<RevealedTerms | null>(null);
+
+  const handleReveal = async () => {
+    if (terms) {
+      setTerms(null);
+      return;
+    }
+
+    try {
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const signer = await walletProvider.getSigner();
+
+      const handles = await fetchEncryptedHandles(offerId);
+      const [price, duration, slots] = await userDecrypt(getContractAddress(), signer, [
+        handles.price,
+        handles.duration,
+        handles.slots,
+      ]);
+      setTerms({ price, duration, slots });
+    } catch (error) {
+      toast({
+        title: "Unable to reveal encrypted terms",
+        description: formatMarketplaceError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={handleReveal}
+        disabled={!account || isDecrypting}
+      >
+        {isDecrypting ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Decrypting...
+          </>
+        ) : terms ? (
+          <>
+            <EyeOff className="h-4 w-4 mr-2" />
+            Hide Encrypted Terms
+          </>
+        ) : (
+          <>
+            <Eye className="h-4 w-4 mr-2" />
+            Reveal to Me
+          </>
+        )}
+      </Button>
+
+      {terms && (
+        <div className="mt-3 space-y-1 rounded-md border border-primary/30 bg-primary/5 p-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Encrypted price</span>
+            <span className="font-mono">{formatEther(terms.price)} ETH</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Encrypted duration</span>
+            <span className="font-mono">{terms.duration.toString()} days</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Encrypted slots</span>
+            <span className="font-mono">{terms.slots.toString()}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
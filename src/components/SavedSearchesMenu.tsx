@@ -0,0 +1,82 @@
+import { Bell, BookmarkPlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import type { OfferFilters } from "@/lib/offer-filters";
+import { isSavableSearch, MAX_SAVED_SEARCHES } from "@/lib/saved-searches";
+
+type SavedSearchesMenuProps = {
+  filters: OfferFilters;
+  onApply: (query: string) => void;
+};
+
+export const SavedSearchesMenu = ({ filters, onApply }: SavedSearchesMenuProps) => {
+  const { toast } = useToast();
+  const { searches, saveSearch, removeSearch } = useSavedSearches();
+  const canSave = isSavableSearch(filters);
+
+  const handleSave = () => {
+    const search = saveSearch(filters);
+    toast({
+      title: "Search saved",
+      description: `You'll be notified when a new offer matches ${search.name}.`,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bell className="h-4 w-4 mr-2" />
+          Saved searches
+          {searches.length > 0 && (
+            <span className="ml-1 text-muted-foreground">({searches.length})</span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-80">
+        <DropdownMenuItem onSelect={handleSave} disabled={!canSave}>
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          {canSave ? "Save current search" : "Add a search or filter to save it"}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+          New offers matching these show a notification (up to {MAX_SAVED_SEARCHES})
+        </DropdownMenuLabel>
+        {searches.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved searches yet.</p>
+        ) : (
+          searches.map((search) => (
+            <DropdownMenuItem
+              key={search.id}
+              onSelect={() => onApply(search.query)}
+              className="flex items-center justify-between gap-2"
+            >
+              <span className="truncate">{search.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                aria-label={`Delete saved search ${search.name}`}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  removeSearch(search.id);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
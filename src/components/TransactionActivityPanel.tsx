@@ -0,0 +1,130 @@
+import { Activity, ExternalLink, Loader2 } from "lucide-react";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useTransactions } from "@/hooks/use-transactions";
+import { getExplorerTxUrl, getNetworkByChainId } from "@/lib/networks";
+import {
+  TRACKED_TX_STATUS_LABELS,
+  transactionManager,
+  type TrackedTransaction,
+  type TrackedTxStatus,
+} from "@/lib/transaction-manager";
+
+const STATUS_VARIANTS: Record<TrackedTxStatus, BadgeProps["variant"]> = {
+  pending: "cyber",
+  confirmed: "default",
+  reverted: "destructive",
+  cancelled: "secondary",
+  replaced: "secondary",
+  dropped: "secondary",
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+
+const TxLink = ({ hash, chainId }: { hash: string; chainId: number }) => {
+  const network = getNetworkByChainId(chainId);
+  const url = network ? getExplorerTxUrl(hash, network) : null;
+  return url ? (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 font-mono text-accent hover:underline"
+    >
+      {shortHash(hash)}
+      <ExternalLink className="h-3 w-3" />
+    </a>
+  ) : (
+    <span className="font-mono">{shortHash(hash)}</span>
+  );
+};
+
+const TransactionRow = ({ transaction }: { transaction: TrackedTransaction }) => {
+  const network = getNetworkByChainId(transaction.chainId);
+  const isSpedUp = transaction.status === "confirmed" && !!transaction.replacedBy;
+
+  return (
+    <li className="space-y-1.5 rounded-lg border border-border/40 p-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium leading-tight">{transaction.description}</p>
+        <Badge variant={STATUS_VARIANTS[transaction.status]} className="shrink-0">
+          {transaction.status === "pending" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {isSpedUp ? "Sped up" : TRACKED_TX_STATUS_LABELS[transaction.status]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {new Date(transaction.submittedAt).toLocaleString()}
+        {network && ` · ${network.name}`}
+        {` · nonce ${transaction.nonce}`}
+      </p>
+      <p className="text-xs">
+        <TxLink hash={transaction.hash} chainId={transaction.chainId} />
+      </p>
+      {transaction.replacedBy && (
+        <p className="text-xs text-muted-foreground">
+          {isSpedUp ? "Mined as " : "Nonce used by "}
+          <TxLink hash={transaction.replacedBy} chainId={transaction.chainId} />
+        </p>
+      )}
+      {transaction.revertReason && (
+        <p className="text-xs text-destructive break-words">{transaction.revertReason}</p>
+      )}
+    </li>
+  );
+};
+
+export const TransactionActivityPanel = () => {
+  const transactions = useTransactions();
+  const pendingCount = transactions.filter((transaction) => transaction.status === "pending").length;
+  const hasSettled = transactions.length > pendingCount;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Transaction activity">
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin text-accent" />
+          ) : (
+            <Activity className="h-4 w-4" />
+          )}
+          {pendingCount > 0 && <span className="ml-1 text-xs">{pendingCount}</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Transaction Activity</SheetTitle>
+          <SheetDescription>
+            Transactions sent from this browser. Pending ones keep being tracked across reloads.
+          </SheetDescription>
+        </SheetHeader>
+
+        {transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transactions yet.</p>
+        ) : (
+          <ScrollArea className="flex-1 -mx-2 px-2">
+            <ul className="space-y-3">
+              {transactions.map((transaction) => (
+                <TransactionRow key={transaction.hash} transaction={transaction} />
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        {hasSettled && (
+          <Button variant="outline" size="sm" onClick={() => transactionManager.clearSettled()}>
+            Clear finished
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,87 @@
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { formatUnits } from "ethers";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { TransactionConfirmDialogProps } from "@/hooks/use-transaction-confirm";
+import { formatFeeEth, type FeeEstimate } from "@/lib/transaction-preflight";
+
+const formatGwei = (wei: bigint) => `${Number(formatUnits(wei, "gwei")).toFixed(2)} gwei`;
+
+const FeeRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono">{value}</span>
+  </div>
+);
+
+const FeeBreakdown = ({ fee }: { fee: FeeEstimate }) => (
+  <div className="space-y-3">
+    <p className="flex items-center gap-2 text-sm text-primary">
+      <CheckCircle2 className="h-4 w-4" />
+      Simulation succeeded
+    </p>
+    <div className="space-y-1.5 rounded-lg border border-border/40 p-3 text-sm">
+      <FeeRow label="Estimated fee" value={`${formatFeeEth(fee.expectedFeeWei)} ETH`} />
+      <FeeRow label="Max fee" value={`${formatFeeEth(fee.maxFeeWei)} ETH`} />
+      <FeeRow label="Gas limit" value={fee.gasLimit.toString()} />
+      {fee.eip1559 ? (
+        <>
+          <FeeRow label="Max fee per gas" value={formatGwei(fee.maxFeePerGas)} />
+          <FeeRow label="Priority fee" value={formatGwei(fee.maxPriorityFeePerGas)} />
+        </>
+      ) : (
+        <FeeRow label="Gas price" value={formatGwei(fee.maxFeePerGas)} />
+      )}
+    </div>
+  </div>
+);
+
+export const TransactionConfirmDialog = ({
+  request,
+  preflight,
+  onConfirm,
+  onCancel,
+}: TransactionConfirmDialogProps) => (
+  <AlertDialog open={!!request} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>{request?.title}</AlertDialogTitle>
+        <AlertDialogDescription>{request?.description}</AlertDialogDescription>
+      </AlertDialogHeader>
+
+      {!preflight ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Simulating transaction and estimating gas...
+        </p>
+      ) : preflight.status === "ready" ? (
+        <FeeBreakdown fee={preflight.fee} />
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>This transaction would fail</AlertTitle>
+          <AlertDescription>
+            {preflight.error.message}
+            {preflight.error.action && <span className="block mt-1">{preflight.error.action}</span>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction disabled={preflight?.status !== "ready"} onClick={onConfirm}>
+          Confirm in wallet
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
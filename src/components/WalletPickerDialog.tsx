@@ -0,0 +1,71 @@
+import { Check, Loader2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useWallet } from "@/hooks/use-wallet";
+
+export const WalletPickerDialog = () => {
+  const {
+    wallets,
+    activeWallet,
+    account,
+    isConnecting,
+    isPickerOpen,
+    closeWalletPicker,
+    connectWallet,
+  } = useWallet();
+
+  return (
+    <Dialog open={isPickerOpen} onOpenChange={(open) => !open && closeWalletPicker()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Connect a wallet</DialogTitle>
+          <DialogDescription>
+            Choose which installed wallet to use with ChronoShield.
+          </DialogDescription>
+        </DialogHeader>
+
+        {wallets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No wallet detected. Install MetaMask or another EVM-compatible wallet extension and
+            reload the page.
+          </p>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {wallets.map(({ info }) => {
+              const isActive = !!account && activeWallet?.uuid === info.uuid;
+              return (
+                <Button
+                  key={info.uuid}
+                  variant="outline"
+                  className="h-12 justify-start gap-3"
+                  disabled={isConnecting}
+                  onClick={() => connectWallet(info.rdns)}
+                >
+                  {info.icon ? (
+                    <img src={info.icon} alt="" className="h-6 w-6 rounded" />
+                  ) : (
+                    <Wallet className="h-6 w-6" />
+                  )}
+                  <span className="flex-1 text-left">{info.name}</span>
+                  {isActive && <Check className="h-4 w-4 text-primary" />}
+                </Button>
+              );
+            })}
+            {isConnecting && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Waiting for the wallet to respond...
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,92 @@
+import { useCallback, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { useTransactionConfirm } from "@/hooks/use-transaction-confirm";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+import {
+  parseOfferForm,
+  submitOffer,
+  type CreateOfferResult,
+  type OfferCreationMode,
+  type OfferCreationStage,
+} from "@/lib/offer-creation";
+import type { CreateOfferFormData } from "@/types/contract";
+
+/**
+ * Validates, submits and confirms a new offer, then opens its detail page
+ */
+export function useCreateOffer() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasProvider, account, connectWallet, ensureNetwork } = useWallet();
+  const { confirm, dialogProps } = useTransactionConfirm();
+  const [activeMode, setActiveMode] = useState<OfferCreationMode | null>(null);
+  const [stage, setStage] = useState<OfferCreationStage | null>(null);
+
+  const createOffer = useCallback(
+    async (values: CreateOfferFormData, mode: OfferCreationMode): Promise<CreateOfferResult | null> => {
+      setActiveMode(mode);
+      try {
+        const draft = parseOfferForm(values);
+
+        if (!hasProvider) {
+          throw new Error("Wallet provider unavailable. Please install MetaMask.");
+        }
+        const userAccount = account ?? (await connectWallet());
+        if (!userAccount) {
+          throw new Error("Please connect your wallet to continue.");
+        }
+        const walletProvider = await ensureNetwork();
+        if (!walletProvider) {
+          throw new Error("Switch your wallet to the selected network to continue.");
+        }
+
+        const result = await submitOffer({
+          provider: walletProvider,
+          account: userAccount,
+          draft,
+          mode,
+          confirm,
+          onStage: (next, txHash) => {
+            setStage(next);
+            if (next === "confirming" && txHash) {
+              toast({
+                title: "Transaction Submitted",
+                description: `Creating offer... TX: ${txHash.slice(0, 10)}...`,
+              });
+            }
+          },
+        });
+        if (!result) return null;
+
+        toast({
+          title: mode === "encrypted" ? "FHE Offer Created!" : "Offer Created Successfully!",
+          description: `Offer #${result.offerId.toString()} is now live on the marketplace.`,
+        });
+        navigate(`/offer/${result.offerId.toString()}`);
+        return result;
+      } catch (error) {
+        console.error("[CreateOffer] Failed:", error);
+        toast({
+          title: mode === "encrypted" ? "Failed to create encrypted offer" : "Failed to create offer",
+          description: formatMarketplaceError(error),
+          variant: "destructive",
+        });
+        return null;
+      } finally {
+        setActiveMode(null);
+        setStage(null);
+      }
+    },
+    [hasProvider, account, connectWallet, ensureNetwork, confirm, toast, navigate],
+  );
+
+  return {
+    createOffer,
+    activeMode,
+    stage,
+    isSubmitting: activeMode !== null,
+    confirmDialogProps: dialogProps,
+  };
+}
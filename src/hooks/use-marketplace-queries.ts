@@ -0,0 +1,302 @@
+import { useCallback, useEffect } from "react";
+import { queryOptions, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useNetwork } from "@/hooks/use-network";
+import {
+  fetchContractStats,
+  fetchCreatorSales,
+  fetchEncryptedHandles,
+  fetchOfferById,
+  fetchOffersByCreator,
+  fetchPlatformSettings,
+  fetchPurchaseHistory,
+  fetchRevealedOfferIds,
+  iterateActiveOffers,
+  subscribeToMarketplaceEvents,
+} from "@/lib/contract-client";
+import type { MarketplaceEvent } from "@/lib/marketplace-client";
+import type { NetworkKey } from "@/lib/networks";
+import type { Offer } from "@/types/contract";
+
+/**
+ * Query keys, scoped by network so cached reads never leak across chains.
+ * Omitting the trailing id or address yields a prefix that matches every entry.
+ */
+export const marketplaceKeys = {
+  all: (network: NetworkKey) => ["marketplace", network] as const,
+  activeOffers: (network: NetworkKey) => [...marketplaceKeys.all(network), "active-offers"],
+  offer: (network: NetworkKey, id?: bigint | string) =>
+    [...marketplaceKeys.all(network), "offer", ...(id === undefined ? [] : [id.toString()])],
+  encryptedHandles: (network: NetworkKey, id: bigint | string) => [
+    ...marketplaceKeys.all(network),
+    "encrypted-handles",
+    id.toString(),
+  ],
+  revealedOfferIds: (network: NetworkKey) => [...marketplaceKeys.all(network), "revealed"],
+  offersByCreator: (network: NetworkKey, address?: string) => [
+    ...marketplaceKeys.all(network),
+    "offers-by-creator",
+    ...(address ? [address.toLowerCase()] : []),
+  ],
+  purchaseHistory: (network: NetworkKey, address?: string) => [
+    ...marketplaceKeys.all(network),
+    "purchase-history",
+    ...(address ? [address.toLowerCase()] : []),
+  ],
+  creatorSales: (network: NetworkKey, address?: string) => [
+    ...marketplaceKeys.all(network),
+    "creator-sales",
+    ...(address ? [address.toLowerCase()] : []),
+  ],
+  contractStats: (network: NetworkKey) => [...marketplaceKeys.all(network), "stats"],
+  platformSettings: (network: NetworkKey) => [...marketplaceKeys.all(network), "settings"],
+};
+
+// Offer state moves with every purchase; settings only with owner transactions.
+// Contract events invalidate the affected queries long before these run out.
+const STALE_TIME = {
+  offers: 30_000,
+  offer: 15_000,
+  stats: 30_000,
+  purchases: 60_000,
+  revealed: 60_000,
+  settings: 5 * 60_000,
+} as const;
+
+export type ActiveOffersData = {
+  offers: Offer[];
+  /** False while the first load is still streaming pages in */
+  isComplete: boolean;
+};
+
+export function useActiveOffers() {
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+  const queryKey = marketplaceKeys.activeOffers(network.key);
+
+  return useQuery({
+    queryKey,
+    queryFn: async (): Promise<ActiveOffersData> => {
+      // On a cold cache each page is published as it arrives so the grid renders
+      // early; refetches keep showing the previous list until the new one is complete
+      const isColdStart = queryClient.getQueryData(queryKey) === undefined;
+      const offers: Offer[] = [];
+      for await (const page of iterateActiveOffers()) {
+        offers.push(...page);
+        if (isColdStart) {
+          queryClient.setQueryData<ActiveOffersData>(queryKey, {
+            offers: [...offers],
+            isComplete: false,
+          });
+        }
+      }
+      return { offers, isComplete: true };
+    },
+    staleTime: STALE_TIME.offers,
+  });
+}
+
+/** Shared by useOffer and event handlers that fetch a newly created offer */
+export const offerQueryOptions = (network: NetworkKey, id: bigint | string) =>
+  queryOptions({
+    queryKey: marketplaceKeys.offer(network, id),
+    queryFn: () => fetchOfferById(id),
+    staleTime: STALE_TIME.offer,
+  });
+
+export function useOffer(id: bigint | string | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery({
+    ...offerQueryOptions(network.key, id ?? ""),
+    enabled: id !== undefined && id !== "",
+  });
+}
+
+export function useEncryptedHandles(id: bigint | string | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.encryptedHandles(network.key, id ?? ""),
+    queryFn: () => fetchEncryptedHandles(id!),
+    enabled: id !== undefined && id !== "",
+    // Handles are fixed when the offer is created
+    staleTime: Infinity,
+  });
+}
+
+export function useRevealedOfferIds() {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.revealedOfferIds(network.key),
+    queryFn: fetchRevealedOfferIds,
+    staleTime: STALE_TIME.revealed,
+  });
+}
+
+export function useOffersByCreator(address: string | null | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.offersByCreator(network.key, address ?? ""),
+    queryFn: () => fetchOffersByCreator(address!),
+    enabled: !!address,
+    staleTime: STALE_TIME.offers,
+  });
+}
+
+export function usePurchaseHistory(address: string | null | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.purchaseHistory(network.key, address ?? ""),
+    queryFn: () => fetchPurchaseHistory(address!),
+    enabled: !!address,
+    staleTime: STALE_TIME.purchases,
+  });
+}
+
+export function useCreatorSales(address: string | null | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.creatorSales(network.key, address ?? ""),
+    queryFn: () => fetchCreatorSales(address!),
+    enabled: !!address,
+    staleTime: STALE_TIME.purchases,
+  });
+}
+
+export function useContractStats() {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.contractStats(network.key),
+    queryFn: fetchContractStats,
+    staleTime: STALE_TIME.stats,
+  });
+}
+
+export function usePlatformSettings() {
+  const { network } = useNetwork();
+
+  return useQuery({
+    queryKey: marketplaceKeys.platformSettings(network.key),
+    queryFn: fetchPlatformSettings,
+    staleTime: STALE_TIME.settings,
+  });
+}
+
+/**
+ * Invalidate every marketplace query on the active network.
+ * Called once our own transactions confirm, ahead of the matching contract event.
+ */
+export function useInvalidateMarketplace() {
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: marketplaceKeys.all(network.key) }),
+    [queryClient, network.key],
+  );
+}
+
+/** Apply `update` to one offer wherever it is cached: by ID, in the active list and per creator */
+function patchCachedOffer(
+  queryClient: QueryClient,
+  network: NetworkKey,
+  offerId: bigint,
+  update: (offer: Offer) => Offer,
+) {
+  const patch = (offer: Offer) => (offer.id === offerId ? update(offer) : offer);
+
+  queryClient.setQueryData<Offer | null>(
+    marketplaceKeys.offer(network, offerId),
+    (offer) => offer && update(offer),
+  );
+  queryClient.setQueryData<ActiveOffersData>(
+    marketplaceKeys.activeOffers(network),
+    (data) => data && { ...data, offers: data.offers.map(patch) },
+  );
+  queryClient.setQueriesData<Offer[]>(
+    { queryKey: marketplaceKeys.offersByCreator(network) },
+    (offers) => offers?.map(patch),
+  );
+}
+
+async function addCreatedOffer(queryClient: QueryClient, network: NetworkKey, offerId: bigint) {
+  const offer = await queryClient.fetchQuery(offerQueryOptions(network, offerId));
+  if (!offer) return;
+  queryClient.setQueryData<ActiveOffersData>(marketplaceKeys.activeOffers(network), (data) =>
+    data && !data.offers.some((cached) => cached.id === offerId)
+      ? { ...data, offers: [offer, ...data.offers] }
+      : data,
+  );
+}
+
+/**
+ * Patch cached offers in place from the event payload where it carries enough to do
+ * so, and invalidate the aggregate queries that it does not.
+ */
+function applyEventToCache(queryClient: QueryClient, network: NetworkKey, event: MarketplaceEvent) {
+  const invalidate = (queryKey: unknown[]) => queryClient.invalidateQueries({ queryKey });
+
+  switch (event.name) {
+    case "OfferCreated":
+      addCreatedOffer(queryClient, network, event.args.offerId).catch((error) => {
+        console.warn("[Events] Failed to load new offer:", error);
+        invalidate(marketplaceKeys.activeOffers(network));
+      });
+      invalidate(marketplaceKeys.contractStats(network));
+      invalidate(marketplaceKeys.offersByCreator(network, event.args.creator));
+      break;
+    case "OfferPurchased": {
+      const { offerId, buyer, slotsLeft } = event.args;
+      patchCachedOffer(queryClient, network, offerId, (offer) => ({
+        ...offer,
+        availableSlots: slotsLeft,
+        isActive: offer.isActive && slotsLeft > 0n,
+      }));
+      invalidate(marketplaceKeys.contractStats(network));
+      invalidate(marketplaceKeys.purchaseHistory(network, buyer));
+      // The payload names the buyer, not the creator
+      invalidate(marketplaceKeys.creatorSales(network));
+      break;
+    }
+    case "OfferDeactivated":
+      patchCachedOffer(queryClient, network, event.args.offerId, (offer) => ({
+        ...offer,
+        isActive: false,
+      }));
+      invalidate(marketplaceKeys.contractStats(network));
+      break;
+    case "TallyRevealRequested":
+      invalidate(marketplaceKeys.revealedOfferIds(network));
+      invalidate(marketplaceKeys.offer(network, event.args.offerId));
+      break;
+    case "PublicDecryptionVerified":
+      // The reveal callback rewrites an offer's public price and slots
+      invalidate(marketplaceKeys.offer(network));
+      invalidate(marketplaceKeys.activeOffers(network));
+      invalidate(marketplaceKeys.offersByCreator(network));
+      break;
+    case "OwnershipTransferred":
+      invalidate(marketplaceKeys.platformSettings(network));
+      break;
+  }
+}
+
+/**
+ * Keeps cached marketplace reads in step with the chain as confirmed contract events
+ * arrive, so open pages update live. Mount once, inside NetworkProvider.
+ */
+export function useMarketplaceEventSync() {
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeToMarketplaceEvents((event) => applyEventToCache(queryClient, network.key, event)),
+    [queryClient, network.key],
+  );
+}
@@ -0,0 +1,77 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useWallet } from "@/hooks/use-wallet";
+import { initializeFHE, isFHEReady, resetFHE } from "@/lib/fhe";
+import {
+  NETWORKS,
+  getActiveNetwork,
+  setActiveNetwork,
+  subscribeToNetwork,
+  type NetworkConfig,
+  type NetworkKey,
+} from "@/lib/networks";
+
+type NetworkContextValue = {
+  network: NetworkConfig;
+  networks: NetworkConfig[];
+  isSwitching: boolean;
+  selectNetwork: (key: NetworkKey) => Promise<void>;
+};
+
+const NetworkContext = createContext<NetworkContextValue | undefined>(undefined);
+
+export function NetworkProvider({ children }: { children: React.ReactNode }) {
+  const { account, isSwitchingChain, switchNetwork } = useWallet();
+  const queryClient = useQueryClient();
+  const [network, setNetwork] = useState<NetworkConfig>(getActiveNetwork);
+
+  useEffect(
+    () =>
+      subscribeToNetwork((next) => {
+        setNetwork(next);
+
+        // The FHE instance is bound to one chain's ACL/KMS contracts
+        const wasReady = isFHEReady();
+        resetFHE();
+        if (wasReady) {
+          initializeFHE().catch((error) => {
+            console.warn(`[FHE] Reinitialization for ${next.name} failed:`, error);
+          });
+        }
+
+        queryClient.invalidateQueries();
+      }),
+    [queryClient],
+  );
+
+  // The wallet switches first, so a rejected switch leaves both on the current network
+  const selectNetwork = useCallback(
+    async (key: NetworkKey) => {
+      if (account && !(await switchNetwork(NETWORKS[key]))) return;
+      setActiveNetwork(key);
+    },
+    [account, switchNetwork],
+  );
+
+  const value = useMemo(
+    () => ({
+      network,
+      networks: Object.values(NETWORKS),
+      isSwitching: isSwitchingChain,
+      selectNetwork,
+    }),
+    [network, isSwitchingChain, selectNetwork],
+  );
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+}
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+
+  if (!context) {
+    throw new Error("useNetwork must be used within NetworkProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import { nowSeconds } from "@/lib/offers";
+
+/**
+ * Current unix time in seconds, refreshed every `intervalMs` for countdowns
+ */
+export function useNow(intervalMs = 1_000) {
+  const [now, setNow] = useState(nowSeconds);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(nowSeconds()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
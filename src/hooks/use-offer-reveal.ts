@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useWallet } from "@/hooks/use-wallet";
+import { useNetwork } from "@/hooks/use-network";
+import { useDecrypt } from "@/hooks/useFHE";
+import { useInvalidateMarketplace } from "@/hooks/use-marketplace-queries";
+import {
+  getContractAddress,
+  getContractWithSigner,
+  parseTallyRevealRequestedEvent,
+} from "@/lib/contract-client";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+import {
+  loadRevealProgress,
+  revealStorageKey,
+  saveRevealProgress,
+  type RevealProgress,
+} from "@/lib/offer-reveal";
+import { transactionManager, type TrackedTransactionResult } from "@/lib/transaction-manager";
+
+/**
+ * Drives the public reveal of an offer's encrypted price and slots.
+ * `run` starts a new reveal or continues a stored one from its last completed stage.
+ */
+export function useOfferReveal(offerId: bigint, onResolved?: () => void) {
+  const { ensureNetwork } = useWallet();
+  const { network } = useNetwork();
+  const { decryptMultiple } = useDecrypt();
+  const invalidateMarketplace = useInvalidateMarketplace();
+  const contractAddress = getContractAddress();
+  const storageKey = contractAddress
+    ? revealStorageKey(network.chainId, contractAddress, offerId)
+    : null;
+
+  const [progress, setProgress] = useState<RevealProgress | null>(() =>
+    storageKey ? loadRevealProgress(storageKey) : null,
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    setProgress(storageKey ? loadRevealProgress(storageKey) : null);
+    setError(null);
+  }, [storageKey]);
+
+  const run = useCallback(async () => {
+    if (!storageKey || runningRef.current) return;
+    runningRef.current = true;
+    setIsRunning(true);
+    setError(null);
+
+    const getSignerContract = async () => {
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) {
+        throw new Error("Connect your wallet on the selected network to continue.");
+      }
+      return getContractWithSigner(walletProvider);
+    };
+
+    const requestDetails = {
+      kind: "requestOfferReveal" as const,
+      description: `Request reveal of offer #${offerId.toString()}`,
+    };
+    const resolveDetails = {
+      kind: "resolveOfferCallback" as const,
+      description: `Publish revealed terms of offer #${offerId.toString()}`,
+    };
+    // Set when the transaction was sent in this run; otherwise a stored hash is resumed
+    let sent: Promise<TrackedTransactionResult> | null = null;
+
+    let current = loadRevealProgress(storageKey);
+    const update = (next: Omit<RevealProgress, "updatedAt">) => {
+      current = { ...next, updatedAt: Date.now() };
+      saveRevealProgress(storageKey, current);
+      setProgress(current);
+      return current;
+    };
+
+    try {
+      // A finished reveal can be re-run (e.g. after the creator re-encrypts)
+      if (!current || current.stage === "resolved") {
+        const contract = await getSignerContract();
+        const tx = await contract.requestOfferReveal(offerId);
+        sent = transactionManager.track(tx, requestDetails);
+        current = update({
+          offerId: offerId.toString(),
+          stage: "requesting",
+          requestTxHash: tx.hash,
+        });
+      }
+
+      if (current.stage === "requesting") {
+        const { receipt } = await (sent ??
+          transactionManager.waitFor(current.requestTxHash, requestDetails));
+        const event = parseTallyRevealRequestedEvent(receipt);
+        if (!event) {
+          throw new Error("TallyRevealRequested event not found in the reveal transaction.");
+        }
+        current = update({
+          ...current,
+          stage: "requested",
+          priceHandle: event.priceHandle,
+          slotsHandle: event.slotsHandle,
+        });
+        invalidateMarketplace();
+      }
+
+      if (current.stage === "requested") {
+        // Order matters: resolveOfferCallback decodes (uint64 price, uint32 slots)
+        const result = await decryptMultiple(contractAddress, null, [
+          current.priceHandle!,
+          current.slotsHandle!,
+        ]);
+        const [price, slots] = result.values;
+        current = update({
+          ...current,
+          stage: "decrypted",
+          cleartexts: result.cleartexts,
+          decryptionProof: result.decryptionProof,
+          revealedPrice: BigInt(price).toString(),
+          revealedSlots: BigInt(slots).toString(),
+        });
+      }
+
+      if (current.stage === "decrypted") {
+        const contract = await getSignerContract();
+        const tx = await contract.resolveOfferCallback(
+          offerId,
+          current.cleartexts!,
+          current.decryptionProof!,
+        );
+        sent = transactionManager.track(tx, resolveDetails);
+        current = update({ ...current, stage: "resolving", resolveTxHash: tx.hash });
+      }
+
+      if (current.stage === "resolving") {
+        await (sent ?? transactionManager.waitFor(current.resolveTxHash!, resolveDetails));
+        update({ ...current, stage: "resolved" });
+        invalidateMarketplace();
+        onResolved?.();
+      }
+    } catch (err) {
+      console.error("[Reveal] Stage failed:", err);
+      setError(formatMarketplaceError(err));
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+  }, [
+    storageKey,
+    offerId,
+    contractAddress,
+    decryptMultiple,
+    ensureNetwork,
+    invalidateMarketplace,
+    onResolved,
+  ]);
+
+  const reset = useCallback(() => {
+    if (!storageKey) return;
+    saveRevealProgress(storageKey, null);
+    setProgress(null);
+    setError(null);
+  }, [storageKey]);
+
+  return { progress, isRunning, error, run, reset };
+}
@@ -0,0 +1,28 @@
+import { useMemo, useRef } from "react";
+import { OfferSearchIndex, type OfferSearchResult } from "@/lib/offer-search";
+import type { Offer } from "@/types/contract";
+
+/**
+ * Keeps an inverted index in step with `offers` and runs `query` against it.
+ * Returns null for an empty query so callers can skip filtering.
+ */
+export function useOfferSearch(offers: Offer[], query: string) {
+  const indexRef = useRef<OfferSearchIndex | null>(null);
+  if (!indexRef.current) {
+    indexRef.current = new OfferSearchIndex();
+  }
+
+  const index = indexRef.current;
+
+  // Re-synced on every load or event-driven refresh; unchanged offers are skipped.
+  // A fresh wrapper per sync lets the search memo below see the index change.
+  const synced = useMemo(() => {
+    index.sync(offers);
+    return { index };
+  }, [index, offers]);
+
+  return useMemo((): Map<bigint, OfferSearchResult> | null => {
+    if (!query.trim()) return null;
+    return new Map(synced.index.search(query).map((result) => [result.offerId, result]));
+  }, [synced, query]);
+}
@@ -0,0 +1,123 @@
+import { useCallback, useState, useSyncExternalStore } from "react";
+import { useWallet } from "@/hooks/use-wallet";
+import { useNetwork } from "@/hooks/use-network";
+import { useDecrypt } from "@/hooks/useFHE";
+import {
+  checkComparisonAccess,
+  getContractAddress,
+  getContractWithSigner,
+} from "@/lib/contract-client";
+import { getFhevmConfig } from "@/lib/fhe";
+import { MarketplaceError } from "@/lib/marketplace-errors";
+import {
+  loadComparisonAccess,
+  loadPriceComparison,
+  orderOfferPair,
+  saveComparisonAccess,
+  savePriceComparison,
+  subscribeToComparisonAccess,
+  type PriceComparison,
+} from "@/lib/price-comparison";
+import { transactionManager } from "@/lib/transaction-manager";
+
+const accessDenied = () =>
+  new MarketplaceError({
+    code: "unauthorized",
+    message:
+      "This marketplace contract does not grant access to comparison results, so no transaction was sent.",
+    action: "Price comparison needs a contract deployment that grants FHE.allow on the result.",
+  });
+
+/**
+ * Whether price comparison can work on the active deployment: false once a check found
+ * that comparePrices grants no access to its result, true otherwise (including unchecked)
+ */
+export function useComparisonAvailable() {
+  const { network } = useNetwork();
+  const contractAddress = getContractAddress();
+  const getSnapshot = useCallback(
+    () => (contractAddress ? loadComparisonAccess(network.chainId, contractAddress) : false),
+    [network.chainId, contractAddress],
+  );
+  return useSyncExternalStore(subscribeToComparisonAccess, getSnapshot) !== false;
+}
+
+/**
+ * Confidential price comparison of two offers via comparePrices.
+ * The ebool result is decrypted for the caller (user decryption); prices stay encrypted.
+ * Before the transaction is sent, the deployment is checked for granting access to the
+ * result at all, so a contract without the grant never costs the user a transaction.
+ */
+export function usePriceComparison() {
+  const { ensureNetwork } = useWallet();
+  const { network } = useNetwork();
+  const { userDecrypt } = useDecrypt();
+  const [isComparing, setIsComparing] = useState(false);
+  const isAvailable = useComparisonAvailable();
+
+  const getCached = useCallback(
+    (a: bigint, b: bigint) => {
+      const contractAddress = getContractAddress();
+      return contractAddress ? loadPriceComparison(network.chainId, contractAddress, a, b) : null;
+    },
+    [network.chainId],
+  );
+
+  const compare = useCallback(
+    async (a: bigint, b: bigint): Promise<PriceComparison | null> => {
+      const cached = getCached(a, b);
+      if (cached) return cached;
+      if (!isAvailable) throw accessDenied();
+
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return null;
+
+      setIsComparing(true);
+      try {
+        const [first, second] = orderOfferPair(a, b);
+        const contractAddress = getContractAddress();
+        const signer = await walletProvider.getSigner();
+        const contract = await getContractWithSigner(walletProvider);
+
+        // The result handle is deterministic, so the simulated call yields the
+        // same handle the mined transaction grants access to
+        const handle = await contract.simulate("comparePrices", first, second);
+
+        let granted = loadComparisonAccess(network.chainId, contractAddress);
+        if (granted === null) {
+          granted = await checkComparisonAccess({
+            first,
+            second,
+            handle,
+            aclAddress: getFhevmConfig(network).aclContractAddress,
+          });
+          if (granted !== null) saveComparisonAccess(network.chainId, contractAddress, granted);
+        }
+        if (granted === false) throw accessDenied();
+
+        const tx = await contract.comparePrices(first, second);
+        await transactionManager.track(tx, {
+          kind: "comparePrices",
+          description: `Compare prices of offers #${first.toString()} and #${second.toString()}`,
+        });
+
+        const [value] = await userDecrypt(contractAddress, signer, [handle]);
+
+        const comparison: PriceComparison = {
+          firstId: first.toString(),
+          secondId: second.toString(),
+          firstIsHigher: value !== 0n,
+          txHash: tx.hash,
+          comparedAt: Date.now(),
+        };
+        savePriceComparison(network.chainId, contractAddress, comparison);
+        return comparison;
+      } finally {
+        setIsComparing(false);
+      }
+    },
+    [getCached, isAvailable, ensureNetwork, userDecrypt, network],
+  );
+
+  return { compare, getCached, isComparing, isAvailable };
+}
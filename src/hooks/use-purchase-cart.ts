@@ -0,0 +1,155 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useNetwork } from "@/hooks/use-network";
+import { useWallet } from "@/hooks/use-wallet";
+import { offerQueryOptions } from "@/hooks/use-marketplace-queries";
+import { getContractAddress } from "@/lib/contract-client";
+import {
+  cartItemKey,
+  checkoutCart,
+  purchaseCart,
+  validateCartItem,
+  type CartItem,
+  type CartItemValidation,
+  type CheckoutItemProgress,
+} from "@/lib/purchase-cart";
+import type { Offer } from "@/types/contract";
+
+const subscribe = (onChange: () => void) => purchaseCart.subscribe(onChange);
+const getSnapshot = () => purchaseCart.getItems();
+
+/** Cart items added on the active network and contract, oldest first */
+export function usePurchaseCart() {
+  const allItems = useSyncExternalStore(subscribe, getSnapshot);
+  const { network } = useNetwork();
+  const contractAddress = getContractAddress();
+
+  const items = useMemo(
+    () =>
+      contractAddress
+        ? allItems.filter(
+            (item) =>
+              item.chainId === network.chainId &&
+              item.contractAddress.toLowerCase() === contractAddress.toLowerCase(),
+          )
+        : [],
+    [allItems, network.chainId, contractAddress],
+  );
+
+  const addToCart = useCallback(
+    (offer: Offer, quantity: number) => {
+      if (!contractAddress) return;
+      purchaseCart.add(offer, quantity, { chainId: network.chainId, contractAddress });
+    },
+    [network.chainId, contractAddress],
+  );
+
+  const setQuantity = useCallback(
+    (item: CartItem, quantity: number) =>
+      purchaseCart.update(cartItemKey(item), { quantity: Math.max(1, Math.floor(quantity)) }),
+    [],
+  );
+
+  const removeItems = useCallback(
+    (items: CartItem[]) => purchaseCart.remove(items.map(cartItemKey)),
+    [],
+  );
+
+  return { items, addToCart, setQuantity, removeItems };
+}
+
+export type CartCheckoutResult =
+  | { status: "sent"; results: Map<string, CheckoutItemProgress> }
+  /** Nothing was sent: the cart now holds the new prices for the buyer to review */
+  | { status: "prices-changed"; changed: CartItemValidation[] };
+
+/**
+ * Revalidation and sequential checkout for the cart. `revalidate` re-reads every
+ * offer, bypassing the cache, and adopts changed prices; `checkout` revalidates, then
+ * purchases the items that passed, one transaction each. When a price changed, checkout
+ * stops before sending anything so the buyer confirms the new total first. Resolves
+ * null when nothing was sent for another reason.
+ */
+export function useCartCheckout(items: CartItem[]) {
+  const { network } = useNetwork();
+  const { account, connectWallet, ensureNetwork } = useWallet();
+  const queryClient = useQueryClient();
+  const [validations, setValidations] = useState<Map<string, CartItemValidation>>(new Map());
+  const [progress, setProgress] = useState<Map<string, CheckoutItemProgress>>(new Map());
+  const [checkoutItems, setCheckoutItems] = useState<CartItem[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+
+  const revalidate = useCallback(
+    async (buyer: string | null = account) => {
+      setIsValidating(true);
+      try {
+        const results = await Promise.all(
+          items.map(async (item) => {
+            const offer = await queryClient.fetchQuery({
+              ...offerQueryOptions(network.key, item.offerId),
+              staleTime: 0,
+            });
+            const validation = validateCartItem(item, offer, { account: buyer });
+            if (validation.priceChanged && offer) {
+              purchaseCart.update(cartItemKey(item), {
+                unitPriceWei: offer.publicPrice.toString(),
+                title: offer.title,
+              });
+            }
+            return validation;
+          }),
+        );
+        const next = new Map(results.map((result) => [cartItemKey(result.item), result]));
+        setValidations(next);
+        return results;
+      } finally {
+        setIsValidating(false);
+      }
+    },
+    [items, account, network.key, queryClient],
+  );
+
+  const checkout = useCallback(async (): Promise<CartCheckoutResult | null> => {
+    const buyer = account ?? (await connectWallet());
+    if (!buyer) return null;
+
+    setIsCheckingOut(true);
+    setProgress(new Map());
+    setCheckoutItems([]);
+    try {
+      const validations = await revalidate(buyer);
+      const changed = validations.filter(({ problem, priceChanged }) => priceChanged && !problem);
+      if (changed.length) return { status: "prices-changed", changed };
+
+      const purchasable = validations.flatMap(({ item, offer, problem }) =>
+        offer && !problem ? [item] : [],
+      );
+      if (!purchasable.length) return null;
+      setCheckoutItems(purchasable);
+
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return null;
+
+      const results = await checkoutCart({
+        provider: walletProvider,
+        items: purchasable,
+        onProgress: (key, next) => setProgress((current) => new Map(current).set(key, next)),
+      });
+      return { status: "sent", results };
+    } finally {
+      setIsCheckingOut(false);
+    }
+  }, [account, connectWallet, ensureNetwork, revalidate]);
+
+  return {
+    validations,
+    /** Items sent in the latest checkout, including purchased ones no longer in the cart */
+    checkoutItems,
+    progress,
+    isValidating,
+    isCheckingOut,
+    revalidate,
+    checkout,
+  };
+}
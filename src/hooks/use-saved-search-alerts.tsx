@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther } from "ethers";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { useNetwork } from "@/hooks/use-network";
+import { offerQueryOptions } from "@/hooks/use-marketplace-queries";
+import { subscribeToMarketplaceEvents } from "@/lib/contract-client";
+import { loadSavedSearches, offerMatchesSearch } from "@/lib/saved-searches";
+
+/**
+ * Toast when a newly created offer matches one of the saved searches.
+ * Offers created by the connected account are skipped. Mount once, inside the router.
+ */
+export function useSavedSearchAlerts() {
+  const { network } = useNetwork();
+  const { account } = useWallet();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Read through a ref so wallet changes do not restart the subscription
+  const accountRef = useRef(account);
+  accountRef.current = account;
+
+  useEffect(
+    () =>
+      subscribeToMarketplaceEvents(async (event) => {
+        if (event.name !== "OfferCreated") return;
+        const { offerId, creator } = event.args;
+        if (creator.toLowerCase() === accountRef.current?.toLowerCase()) return;
+
+        const searches = loadSavedSearches();
+        if (!searches.length) return;
+
+        try {
+          const offer = await queryClient.fetchQuery(offerQueryOptions(network.key, offerId));
+          if (!offer) return;
+          const matched = searches.filter((search) => offerMatchesSearch(offer, search));
+          if (!matched.length) return;
+
+          const path = `/offer/${offerId.toString()}`;
+          toast({
+            title: "New offer matches your saved search",
+            description: `${offer.title} · ${formatEther(offer.publicPrice)} ETH — ${matched
+              .map((search) => search.name)
+              .join(", ")}`,
+            action: (
+              <ToastAction altText="View offer" onClick={() => navigate(path)}>
+                View
+              </ToastAction>
+            ),
+          });
+        } catch (error) {
+          console.warn("[SavedSearches] Failed to check new offer:", error);
+        }
+      }),
+    [network.key, queryClient, toast, navigate],
+  );
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import type { OfferFilters } from "@/lib/offer-filters";
+import {
+  createSavedSearch,
+  loadSavedSearches,
+  MAX_SAVED_SEARCHES,
+  SAVED_SEARCHES_STORAGE_KEY,
+  storeSavedSearches,
+  type SavedSearch,
+} from "@/lib/saved-searches";
+
+/**
+ * Saved searches in localStorage, kept in sync with other tabs
+ */
+export function useSavedSearches() {
+  const [searches, setSearches] = useState<SavedSearch[]>(loadSavedSearches);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === SAVED_SEARCHES_STORAGE_KEY) {
+        setSearches(loadSavedSearches());
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const update = useCallback((next: (current: SavedSearch[]) => SavedSearch[]) => {
+    const searches = next(loadSavedSearches());
+    storeSavedSearches(searches);
+    setSearches(searches);
+  }, []);
+
+  /** Save the filters unless the same query is already saved; the oldest entry makes room */
+  const saveSearch = useCallback(
+    (filters: OfferFilters) => {
+      const search = createSavedSearch(filters);
+      update((current) =>
+        current.some((saved) => saved.query === search.query)
+          ? current
+          : [search, ...current].slice(0, MAX_SAVED_SEARCHES),
+      );
+      return search;
+    },
+    [update],
+  );
+
+  const removeSearch = useCallback(
+    (id: string) => update((current) => current.filter((search) => search.id !== id)),
+    [update],
+  );
+
+  return { searches, saveSearch, removeSearch };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ConfirmTransaction,
+  FeeEstimate,
+  TransactionConfirmRequest,
+  TransactionPreflight,
+} from "@/lib/transaction-preflight";
+
+export type TransactionConfirmDialogProps = {
+  request: TransactionConfirmRequest | null;
+  /** Null while the pre-flight is still running */
+  preflight: TransactionPreflight | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * Promise-based confirmation for writes. `confirm` opens the dialog, runs the
+ * pre-flight and resolves with the fee estimate once the user confirms, or null when
+ * they cancel. A blocked pre-flight can only be cancelled. Render
+ * TransactionConfirmDialog with `dialogProps`.
+ */
+export function useTransactionConfirm() {
+  const [request, setRequest] = useState<TransactionConfirmRequest | null>(null);
+  const [preflight, setPreflight] = useState<TransactionPreflight | null>(null);
+  const resolver = useRef<((fee: FeeEstimate | null) => void) | null>(null);
+  // Identifies the open request so a superseded pre-flight cannot overwrite the dialog
+  const activeRequest = useRef<TransactionConfirmRequest | null>(null);
+
+  const settle = useCallback((fee: FeeEstimate | null) => {
+    resolver.current?.(fee);
+    resolver.current = null;
+    activeRequest.current = null;
+    setRequest(null);
+    setPreflight(null);
+  }, []);
+
+  const confirm: ConfirmTransaction = useCallback((next) => {
+    resolver.current?.(null);
+    activeRequest.current = next;
+    setRequest(next);
+    setPreflight(null);
+
+    next.preflight().then((result) => {
+      if (activeRequest.current === next) setPreflight(result);
+    });
+
+    return new Promise<FeeEstimate | null>((resolve) => {
+      resolver.current = resolve;
+    });
+  }, []);
+
+  // Callers awaiting a dialog that unmounts are released as cancelled
+  useEffect(() => () => resolver.current?.(null), []);
+
+  const dialogProps: TransactionConfirmDialogProps = {
+    request,
+    preflight,
+    onConfirm: () => settle(preflight?.status === "ready" ? preflight.fee : null),
+    onCancel: () => settle(null),
+  };
+
+  return { confirm, dialogProps };
+}
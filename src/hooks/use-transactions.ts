@@ -0,0 +1,51 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useNetwork } from "@/hooks/use-network";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidateMarketplace } from "@/hooks/use-marketplace-queries";
+import { formatMarketplaceError } from "@/lib/marketplace-errors";
+import {
+  TRACKED_TX_STATUS_LABELS,
+  TransactionFailedError,
+  transactionManager,
+  type TrackedTransaction,
+} from "@/lib/transaction-manager";
+
+const subscribe = (onChange: () => void) => transactionManager.subscribe(onChange);
+const getSnapshot = () => transactionManager.getTransactions();
+
+/** Tracked transactions, newest first */
+export function useTransactions(): TrackedTransaction[] {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Resumes pending transactions for the active network and refreshes marketplace
+ * queries whenever one of ours settles. Transactions resumed after a reload have no
+ * page waiting on them, so their outcome is announced here. Mount once.
+ */
+export function useTransactionActivity() {
+  const { network } = useNetwork();
+  const { toast } = useToast();
+  const invalidateMarketplace = useInvalidateMarketplace();
+
+  useEffect(
+    () =>
+      transactionManager.onSettled((transaction, { resumed }) => {
+        invalidateMarketplace();
+        if (!resumed) return;
+        toast({
+          title: `${transaction.description}: ${TRACKED_TX_STATUS_LABELS[transaction.status]}`,
+          description:
+            transaction.status === "confirmed"
+              ? undefined
+              : formatMarketplaceError(new TransactionFailedError(transaction)),
+          variant: transaction.status === "confirmed" ? "default" : "destructive",
+        });
+      }),
+    [invalidateMarketplace, toast],
+  );
+
+  useEffect(() => {
+    transactionManager.resume();
+  }, [network.key]);
+}
@@ -1,123 +1,414 @@
-import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { BrowserProvider } from "ethers";
+import type { Eip1193Provider } from "ethers";
 import { useToast } from "@/hooks/use-toast";
+import {
+  getActiveNetwork,
+  requestWalletNetwork,
+  subscribeToNetwork,
+  type NetworkConfig,
+} from "@/lib/networks";
+import { decodeMarketplaceError, formatMarketplaceError } from "@/lib/marketplace-errors";
+
+type InjectedProvider = Eip1193Provider & {
+  on?: (event: string, listener: (...args: never[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: never[]) => void) => void;
+};
+
+/** EIP-6963 provider metadata; `icon` is a data URI. */
+export type WalletInfo = {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+};
+
+export type WalletOption = {
+  info: WalletInfo;
+  provider: InjectedProvider;
+};
 
 type WalletContextValue = {
   account: string | null;
+  chainId: number | null;
+  /** Connected, but the wallet's chain differs from the app's active network. */
+  isWrongNetwork: boolean;
   isConnecting: boolean;
+  isSwitchingChain: boolean;
   hasProvider: boolean;
   provider: BrowserProvider | null;
-  connectWallet: () => Promise<string | null>;
+  /** Discovered wallets (EIP-6963), or the injected window.ethereum when none announce. */
+  wallets: WalletOption[];
+  activeWallet: WalletInfo | null;
+  isPickerOpen: boolean;
+  openWalletPicker: () => Promise<string | null>;
+  closeWalletPicker: () => void;
+  /**
+   * Connect the wallet with the given rdns, or the remembered one. Opens the
+   * picker when several wallets are available and none has been chosen yet.
+   */
+  connectWallet: (rdns?: string) => Promise<string | null>;
+  disconnectWallet: () => void;
+  /**
+   * Switch (or add) the wallet chain; defaults to the app's active network.
+   * Resolves to a provider bound to the new chain, or null when the switch failed.
+   */
+  switchNetwork: (network?: NetworkConfig) => Promise<BrowserProvider | null>;
+  /** Provider to sign with, switching the wallet to the active network first when needed. */
+  ensureNetwork: () => Promise<BrowserProvider | null>;
 };
 
 const WalletContext = createContext<WalletContextValue | undefined>(undefined);
 
-const getEthereum = () =>
+// Set after an explicit connect; silent reconnection on load only happens while it is present
+const LAST_CONNECTED_KEY = "time-marketplace:wallet-connected";
+const WALLET_RDNS_KEY = "time-marketplace:wallet-rdns";
+// How long announcements are awaited before falling back to window.ethereum
+const DISCOVERY_SETTLE_MS = 300;
+
+const INJECTED_WALLET: WalletInfo = {
+  uuid: "injected",
+  name: "Browser Wallet",
+  icon: "",
+  rdns: "injected",
+};
+
+const getInjectedEthereum = (): InjectedProvider | null =>
   typeof window !== "undefined"
-    ? ((window as typeof window & { ethereum?: any }).ethereum ?? null)
+    ? ((window as typeof window & { ethereum?: InjectedProvider }).ethereum ?? null)
     : null;
 
+const readStorage = (key: string) => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string | null) => {
+  try {
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, value);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+};
+
+const parseChainId = (value: unknown) => {
+  const chainId = Number(value);
+  return Number.isFinite(chainId) ? chainId : null;
+};
+
 export const formatAccount = (value: string) =>
   `${value.slice(0, 6)}...${value.slice(-4)}`;
 
 export function WalletProvider({ children }: { children: React.ReactNode }) {
   const { toast } = useToast();
   const [account, setAccount] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [expectedChainId, setExpectedChainId] = useState(() => getActiveNetwork().chainId);
   const [provider, setProvider] = useState<BrowserProvider | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isSwitchingChain, setIsSwitchingChain] = useState(false);
+  const [announcedWallets, setAnnouncedWallets] = useState<WalletOption[]>([]);
+  const [discoveryComplete, setDiscoveryComplete] = useState(false);
+  const [selectedRdns, setSelectedRdns] = useState(() => readStorage(WALLET_RDNS_KEY));
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const pickerResolver = useRef<((account: string | null) => void) | null>(null);
 
-  const connectWallet = async (): Promise<string | null> => {
-    const ethereum = getEthereum();
+  const wallets = useMemo(() => {
+    if (announcedWallets.length || !discoveryComplete) return announcedWallets;
+    const injected = getInjectedEthereum();
+    return injected ? [{ info: INJECTED_WALLET, provider: injected }] : [];
+  }, [announcedWallets, discoveryComplete]);
 
-    if (!ethereum?.request) {
-      toast({
-        title: "Wallet not detected",
-        description: "Install MetaMask or an EVM-compatible wallet to continue.",
-        variant: "destructive",
-      });
-      return null;
-    }
+  const activeWallet =
+    wallets.find((wallet) => wallet.info.rdns === selectedRdns) ??
+    (wallets.length === 1 ? wallets[0] : null);
+  const ethereum = activeWallet?.provider ?? null;
 
-    setIsConnecting(true);
-    try {
-      const accounts = await ethereum.request({ method: "eth_requestAccounts" });
+  // Callbacks read the wallet through a ref so ones captured before a connect still see it
+  const activeWalletRef = useRef<WalletOption | null>(activeWallet);
+  activeWalletRef.current = activeWallet;
 
-      if (!accounts?.length) {
+  const isWrongNetwork = !!account && chainId !== null && chainId !== expectedChainId;
+
+  const settlePicker = useCallback((result: string | null) => {
+    pickerResolver.current?.(result);
+    pickerResolver.current = null;
+    setIsPickerOpen(false);
+  }, []);
+
+  const openWalletPicker = useCallback(() => {
+    pickerResolver.current?.(null);
+    setIsPickerOpen(true);
+    return new Promise<string | null>((resolve) => {
+      pickerResolver.current = resolve;
+    });
+  }, []);
+
+  const closeWalletPicker = useCallback(() => settlePicker(null), [settlePicker]);
+
+  const connectWallet = useCallback(
+    async (rdns?: string): Promise<string | null> => {
+      if (!rdns && !activeWalletRef.current && wallets.length > 1) {
+        return openWalletPicker();
+      }
+
+      const wallet = rdns
+        ? wallets.find((option) => option.info.rdns === rdns)
+        : activeWalletRef.current;
+
+      if (!wallet) {
         toast({
-          title: "No accounts available",
-          description: "Unlock your wallet and try again.",
+          title: "Wallet not detected",
+          description: "Install MetaMask or an EVM-compatible wallet to continue.",
           variant: "destructive",
         });
+        settlePicker(null);
         return null;
       }
 
-      setAccount(accounts[0]);
-      toast({
-        title: "Wallet connected",
-        description: formatAccount(accounts[0]),
-      });
-      return accounts[0];
-    } catch (error: any) {
-      const message =
-        error?.code === 4001
-          ? "Connection request rejected."
-          : error?.message || "Failed to connect wallet.";
-
-      toast({
-        title: "Unable to connect",
-        description: message,
-        variant: "destructive",
+      setIsConnecting(true);
+      try {
+        const accounts = (await wallet.provider.request({ method: "eth_requestAccounts" })) as
+          | string[]
+          | undefined;
+
+        if (!accounts?.length) {
+          toast({
+            title: "No accounts available",
+            description: "Unlock your wallet and try again.",
+            variant: "destructive",
+          });
+          settlePicker(null);
+          return null;
+        }
+
+        activeWalletRef.current = wallet;
+        setSelectedRdns(wallet.info.rdns);
+        writeStorage(WALLET_RDNS_KEY, wallet.info.rdns);
+        writeStorage(LAST_CONNECTED_KEY, "1");
+        setAccount(accounts[0]);
+        toast({
+          title: "Wallet connected",
+          description: `${wallet.info.name} · ${formatAccount(accounts[0])}`,
+        });
+        settlePicker(accounts[0]);
+        return accounts[0];
+      } catch (error) {
+        const decoded = decodeMarketplaceError(error);
+        const message =
+          decoded.code === "user-rejected"
+            ? "Connection request rejected."
+            : formatMarketplaceError(decoded);
+
+        toast({
+          title: "Unable to connect",
+          description: message,
+          variant: "destructive",
+        });
+        settlePicker(null);
+        return null;
+      } finally {
+        setIsConnecting(false);
+      }
+    },
+    [wallets, toast, settlePicker, openWalletPicker],
+  );
+
+  const disconnectWallet = useCallback(() => {
+    setAccount(null);
+    writeStorage(LAST_CONNECTED_KEY, null);
+
+    // Wallets without EIP-2255 keep the site authorized; forgetting the session locally is enough
+    ethereum
+      ?.request({ method: "wallet_revokePermissions", params: [{ eth_accounts: {} }] })
+      .catch(() => {
+        /* ignore */
       });
-      return null;
-    } finally {
-      setIsConnecting(false);
-    }
-  };
+  }, [ethereum]);
+
+  const switchNetwork = useCallback(
+    async (network: NetworkConfig = getActiveNetwork()): Promise<BrowserProvider | null> => {
+      const wallet = activeWalletRef.current;
+      if (!wallet) return null;
+
+      setIsSwitchingChain(true);
+      try {
+        await requestWalletNetwork(wallet.provider, network);
+        return new BrowserProvider(wallet.provider);
+      } catch (error) {
+        const decoded = decodeMarketplaceError(error);
+        toast({
+          title: `Switch your wallet to ${network.name}`,
+          description:
+            decoded.code === "user-rejected"
+              ? "Network switch rejected. Transactions will fail until the wallet is on this network."
+              : decoded.message,
+          variant: "destructive",
+        });
+        return null;
+      } finally {
+        setIsSwitchingChain(false);
+      }
+    },
+    [toast],
+  );
+
+  // Asks the wallet for its chain rather than trusting state that may predate a connect
+  const ensureNetwork = useCallback(async () => {
+    const wallet = activeWalletRef.current;
+    if (!wallet) return null;
+
+    const current = parseChainId(await wallet.provider.request({ method: "eth_chainId" }));
+    return current === getActiveNetwork().chainId
+      ? new BrowserProvider(wallet.provider)
+      : switchNetwork();
+  }, [switchNetwork]);
+
+  useEffect(
+    () => subscribeToNetwork((network) => setExpectedChainId(network.chainId)),
+    [],
+  );
 
+  // EIP-6963: most wallets answer requestProvider synchronously, but some announce only
+  // after their content script loads, and any may announce again later
   useEffect(() => {
-    const ethereum = getEthereum();
+    const handleAnnounce = (event: Event) => {
+      const { info, provider: announced } = (event as CustomEvent<WalletOption>).detail ?? {};
+      if (!info?.rdns || !announced) return;
+      setAnnouncedWallets((current) =>
+        current.some((wallet) => wallet.info.uuid === info.uuid)
+          ? current
+          : [...current, { info, provider: announced }],
+      );
+    };
+
+    window.addEventListener("eip6963:announceProvider", handleAnnounce);
+    window.dispatchEvent(new Event("eip6963:requestProvider"));
+    const settle = window.setTimeout(() => setDiscoveryComplete(true), DISCOVERY_SETTLE_MS);
+
+    return () => {
+      window.clearTimeout(settle);
+      window.removeEventListener("eip6963:announceProvider", handleAnnounce);
+    };
+  }, []);
+
+  useEffect(() => {
+    setChainId(null);
 
-    if (!ethereum?.request) {
+    if (!ethereum) {
+      setAccount(null);
+      setProvider(null);
       return;
     }
 
     setProvider(new BrowserProvider(ethereum));
 
     ethereum
-      .request({ method: "eth_accounts" })
-      .then((accounts: string[]) => {
-        if (accounts?.length) {
-          setAccount(accounts[0]);
-        }
-      })
+      .request({ method: "eth_chainId" })
+      .then((value) => setChainId(parseChainId(value)))
       .catch(() => {
         /* ignore */
       });
 
+    // The account is kept until the wallet reports its own, so selecting the wallet that
+    // was just connected does not flash a disconnected state
+    let cancelled = false;
+    if (readStorage(LAST_CONNECTED_KEY) === "1") {
+      ethereum
+        .request({ method: "eth_accounts" })
+        .then((accounts: string[]) => {
+          if (cancelled) return;
+          if (accounts?.length) {
+            setAccount(accounts[0]);
+          } else {
+            setAccount(null);
+            writeStorage(LAST_CONNECTED_KEY, null);
+          }
+        })
+        .catch(() => {
+          /* ignore */
+        });
+    } else {
+      setAccount(null);
+    }
+
     const handleAccountsChanged = (accounts: string[]) => {
-      setAccount(accounts?.length ? accounts[0] : null);
+      setAccount(
+        accounts?.length && readStorage(LAST_CONNECTED_KEY) === "1" ? accounts[0] : null,
+      );
+    };
+
+    // A BrowserProvider is pinned to the network it first detected, so build a fresh one
+    const handleChainChanged = (value: string) => {
+      setChainId(parseChainId(value));
+      setProvider(new BrowserProvider(ethereum));
     };
 
     const handleDisconnect = () => setAccount(null);
 
     ethereum.on?.("accountsChanged", handleAccountsChanged);
+    ethereum.on?.("chainChanged", handleChainChanged);
     ethereum.on?.("disconnect", handleDisconnect);
 
     return () => {
+      cancelled = true;
       ethereum.removeListener?.("accountsChanged", handleAccountsChanged);
+      ethereum.removeListener?.("chainChanged", handleChainChanged);
       ethereum.removeListener?.("disconnect", handleDisconnect);
     };
-  }, []);
+  }, [ethereum]);
 
   const value = useMemo(
     () => ({
       account,
+      chainId,
+      isWrongNetwork,
       isConnecting,
-      hasProvider: !!provider,
+      isSwitchingChain,
+      hasProvider: wallets.length > 0,
       provider,
+      wallets,
+      activeWallet: activeWallet?.info ?? null,
+      isPickerOpen,
+      openWalletPicker,
+      closeWalletPicker,
       connectWallet,
+      disconnectWallet,
+      switchNetwork,
+      ensureNetwork,
     }),
-    [account, isConnecting, provider],
+    [
+      account,
+      chainId,
+      isWrongNetwork,
+      isConnecting,
+      isSwitchingChain,
+      provider,
+      wallets,
+      activeWallet,
+      isPickerOpen,
+      openWalletPicker,
+      closeWalletPicker,
+      connectWallet,
+      disconnectWallet,
+      switchNetwork,
+      ensureNetwork,
+    ],
   );
 
   return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
@@ -5,7 +5,16 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { getFHEInstance, initializeFHE, type FheInstance } from '@/lib/fhe';
-import { getAddress } from 'ethers';
+import { getAddress, type Signer } from 'ethers';
+import { userDecryptHandles } from '@/lib/user-decrypt';
+import {
+  EncryptedInputBuilder,
+  type EncryptedField,
+  type EncryptedInputs,
+  type EncryptedValueOf,
+} from '@/lib/fhe-inputs';
+import type { EncryptedType } from '@/lib/fhe-types';
+import type { DecryptionResult } from '@/types/contract';
 
 /**
  * Main FHE hook - manages SDK instance
@@ -44,59 +53,29 @@ export function useFHE() {
 
 /**
  * FHEVM 0.9: Encryption Hook
- * Encrypts values for contract submission
+ * Encrypts typed values for contract submission; values are range-checked first
  */
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
 
   /**
-   * Encrypt a single value
+   * Encrypt multiple values (shared proof)
+   * FHEVM 0.9: All values share the same inputProof
    * @param contractAddress - Contract address (will be checksummed)
    * @param userAddress - User address
-   * @param value - Value to encrypt
-   * @param type - Encryption type
+   * @param values - Typed values, encrypted in order
    */
-  const encryptValue = useCallback(async (
+  const encryptBatch = useCallback(async (
     contractAddress: string,
     userAddress: string,
-    value: number | bigint,
-    type: 'uint8' | 'uint16' | 'uint32' | 'uint64'
-  ): Promise<{ handle: string; proof: string }> => {
+    values: EncryptedField[]
+  ): Promise<EncryptedInputs> => {
+    // Validation errors are thrown before any encryption starts
+    const builder = new EncryptedInputBuilder(contractAddress, userAddress).addAll(values);
     setIsEncrypting(true);
 
     try {
-      // Get FHE instance
-      const fhe = await getFHEInstance();
-
-      // â­ FHEVM 0.9: Address must be checksummed
-      const contractAddr = getAddress(contractAddress) as `0x${string}`;
-
-      // Create encrypted input
-      const input = fhe.createEncryptedInput(contractAddr, userAddress);
-
-      // Add value based on type
-      switch (type) {
-        case 'uint8':
-          input.add8(Number(value));
-          break;
-        case 'uint16':
-          input.add16(Number(value));
-          break;
-        case 'uint32':
-          input.add32(Number(value));
-          break;
-        case 'uint64':
-          input.add64(BigInt(value));
-          break;
-      }
-
-      // â­ FHEVM 0.9: Encrypt and get handles + proof
-      const { handles, inputProof } = await input.encrypt();
-
-      return {
-        handle: handles[0],
-        proof: inputProof,
-      };
+      return await builder.encrypt();
     } catch (error) {
       console.error('[useEncrypt] Encryption failed:', error);
       throw error;
@@ -106,55 +85,19 @@ export function useEncrypt() {
   }, []);
 
   /**
-   * Encrypt multiple values (shared proof)
-   * â­ FHEVM 0.9: All values share the same inputProof
+   * Encrypt a single value
    */
-  const encryptBatch = useCallback(async (
+  const encryptValue = useCallback(async <T extends EncryptedType>(
     contractAddress: string,
     userAddress: string,
-    values: Array<{ value: number | bigint; type: 'uint8' | 'uint16' | 'uint32' | 'uint64' }>
-  ): Promise<{ handles: string[]; proof: string }> => {
-    setIsEncrypting(true);
-
-    try {
-      const fhe = await getFHEInstance();
-      const contractAddr = getAddress(contractAddress) as `0x${string}`;
-
-      // Create single input for all values
-      const input = fhe.createEncryptedInput(contractAddr, userAddress);
-
-      // Add all values in order
-      for (const { value, type } of values) {
-        switch (type) {
-          case 'uint8':
-            input.add8(Number(value));
-            break;
-          case 'uint16':
-            input.add16(Number(value));
-            break;
-          case 'uint32':
-            input.add32(Number(value));
-            break;
-          case 'uint64':
-            input.add64(BigInt(value));
-            break;
-        }
-      }
-
-      // Encrypt once - all handles share the same proof
-      const { handles, inputProof } = await input.encrypt();
-
-      return {
-        handles,
-        proof: inputProof,
-      };
-    } catch (error) {
-      console.error('[useEncrypt] Batch encryption failed:', error);
-      throw error;
-    } finally {
-      setIsEncrypting(false);
-    }
-  }, []);
+    value: EncryptedValueOf<T>,
+    type: T
+  ): Promise<{ handle: string; proof: string }> => {
+    const { handles, proof } = await encryptBatch(contractAddress, userAddress, [
+      { type, value } as EncryptedField,
+    ]);
+    return { handle: handles[0], proof };
+  }, [encryptBatch]);
 
   return {
     encryptValue,
@@ -178,12 +121,7 @@ export function useDecrypt() {
     contractAddress: string,
     signer: any,
     handles: string[]
-  ): Promise<{
-    clearValues: Record<string, any>;
-    cleartexts: string;
-    decryptionProof: string;
-    values: any[];
-  }> => {
+  ): Promise<DecryptionResult> => {
     setIsDecrypting(true);
 
     try {
@@ -191,14 +129,15 @@ export function useDecrypt() {
 
       // â­ FHEVM 0.9: Use relayer SDK's publicDecrypt
       // This internally calls the Zama KMS to decrypt
-      const result = await (fhe as any).publicDecrypt(handles);
+      const result = await fhe.publicDecrypt(handles);
 
       // Extract values in order
-      const values = handles.map(handle => result.clearValues[handle]);
+      const values = handles.map(handle => result.clearValues[handle as `0x${string}`]);
 
       return {
         clearValues: result.clearValues,
-        cleartexts: result.cleartexts,
+        // ABI-encoded in the order of `handles`, as FHE.checkSignatures expects
+        cleartexts: result.abiEncodedClearValues,
         decryptionProof: result.decryptionProof,
         values,
       };
@@ -213,20 +152,17 @@ export function useDecrypt() {
   /**
    * User-specific decryption (no event required)
    * Used when contract grants permission via FHE.allow()
+   * Reuses a cached EIP-712 permit for this contract/account or asks the signer for one
    */
   const userDecrypt = useCallback(async (
     contractAddress: string,
-    handle: string
-  ): Promise<bigint> => {
+    signer: Signer,
+    handles: string[]
+  ): Promise<bigint[]> => {
     setIsDecrypting(true);
 
     try {
-      const fhe = await getFHEInstance();
-
-      // â­ FHEVM 0.9: User decryption (simpler than public)
-      const value = await (fhe as any).decrypt(contractAddress, handle);
-
-      return BigInt(value);
+      return await userDecryptHandles(signer, getAddress(contractAddress), handles);
     } catch (error) {
       console.error('[useDecrypt] User decryption failed:', error);
       throw error;
@@ -0,0 +1,52 @@
+/**
+ * Cached block timestamp lookups
+ * Block timestamps never change once a block is final, so they are cached per provider.
+ */
+
+import type { Provider } from "ethers";
+import { mapWithConcurrency } from "@/lib/multicall";
+
+const MAX_CACHED_BLOCKS = 5_000;
+// Blocks fetched at the same time, to stay under public RPC rate limits
+const FETCH_CONCURRENCY = 4;
+
+const caches = new WeakMap<Provider, Map<number, bigint>>();
+
+const getCache = (provider: Provider) => {
+  let cache = caches.get(provider);
+  if (!cache) {
+    cache = new Map();
+    caches.set(provider, cache);
+  }
+  return cache;
+};
+
+export async function getBlockTimestamps(
+  provider: Provider,
+  blockNumbers: number[],
+): Promise<Map<number, bigint>> {
+  const cache = getCache(provider);
+  const unique = [...new Set(blockNumbers)];
+  const missing = unique.filter((blockNumber) => !cache.has(blockNumber));
+
+  const blocks = await mapWithConcurrency(missing, FETCH_CONCURRENCY, (blockNumber) =>
+    provider.getBlock(blockNumber),
+  );
+  blocks.forEach((block, index) => {
+    if (block) cache.set(missing[index], BigInt(block.timestamp));
+  });
+
+  const timestamps = new Map<number, bigint>();
+  unique.forEach((blockNumber) => {
+    const timestamp = cache.get(blockNumber);
+    if (timestamp !== undefined) timestamps.set(blockNumber, timestamp);
+  });
+
+  // Drop the oldest entries (Map keeps insertion order)
+  for (const blockNumber of cache.keys()) {
+    if (cache.size <= MAX_CACHED_BLOCKS) break;
+    cache.delete(blockNumber);
+  }
+
+  return timestamps;
+}
@@ -1,35 +1,200 @@
-import { Contract, Interface, JsonRpcProvider } from "ethers";
-import type { BrowserProvider } from "ethers";
-import type { ContractStats, Offer, Purchase } from "@/types/contract";
-import contractArtifact from "../../contracts/artifacts/contracts/TimeMarketplaceFHE.sol/TimeMarketplaceFHE.json";
+import { FallbackProvider, Interface, JsonRpcProvider } from "ethers";
+import type { AbstractProvider, BrowserProvider, TransactionReceipt } from "ethers";
+import type {
+  ContractStats,
+  Offer,
+  OfferCreatedEvent,
+  OfferPurchasedEvent,
+  Purchase,
+  TallyRevealRequestedEvent,
+} from "@/types/contract";
+import {
+  MarketplaceClient,
+  marketplaceInterface,
+  type MarketplaceEvent,
+  type MarketplaceEventFilter,
+  type MarketplaceEventLog,
+  type MarketplaceEventName,
+} from "@/lib/marketplace-client";
+import { MarketplaceIndexer } from "@/lib/event-indexer";
+import { MarketplaceEventStream } from "@/lib/event-stream";
+import { isIndexedDbAvailable } from "@/lib/indexer-db";
+import { BatchReader, mapWithConcurrency } from "@/lib/multicall";
+import { getBlockTimestamps } from "@/lib/block-timestamps";
+import { getActiveNetwork, type NetworkConfig } from "@/lib/networks";
 
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
-const DEFAULT_RPC = "https://ethereum-sepolia-rpc.publicnode.com";
-const RPC_URL = import.meta.env.VITE_SEPOLIA_RPC_URL || DEFAULT_RPC;
-const CHAIN_ID = Number(import.meta.env.VITE_SEPOLIA_CHAIN_ID || 11155111);
-const DEPLOY_BLOCK = import.meta.env.VITE_DEPLOY_BLOCK
-  ? BigInt(import.meta.env.VITE_DEPLOY_BLOCK)
-  : 0n;
+const env = import.meta.env;
 
-const { abi } = contractArtifact as { abi: any };
+const aclInterface = new Interface([
+  "function isAllowed(bytes32 handle, address account) view returns (bool)",
+]);
 
-export const readOnlyProvider = new JsonRpcProvider(RPC_URL, CHAIN_ID);
-export const contractAddress = CONTRACT_ADDRESS;
-const marketplaceInterface = new Interface(abi);
+// How long the fallback provider waits on an RPC before also asking the next one
+const RPC_STALL_TIMEOUT_MS = 2_000;
+// Archive eth_calls in flight at once when reading state at past blocks
+const HISTORICAL_READ_CONCURRENCY = 4;
+// Blocks behind the head that log fallbacks scan when the network has no deploy block
+// (about a week on Sepolia, ten log queries)
+const RECENT_LOG_WINDOW = 50_000;
+
+type NetworkClients = {
+  network: NetworkConfig;
+  provider: AbstractProvider;
+  batchReader: BatchReader;
+  indexer?: MarketplaceIndexer;
+  eventStream?: MarketplaceEventStream;
+};
+
+let clients: NetworkClients | null = null;
+
+const createReadOnlyProvider = (network: NetworkConfig) => {
+  const providers = network.rpcUrls.map(
+    (url) => new JsonRpcProvider(url, network.chainId, { staticNetwork: true }),
+  );
+  const provider =
+    providers.length > 1
+      ? new FallbackProvider(
+          providers.map((rpc, index) => ({
+            provider: rpc,
+            priority: index + 1,
+            stallTimeout: RPC_STALL_TIMEOUT_MS,
+          })),
+          network.chainId,
+          { quorum: 1 },
+        )
+      : providers[0];
+  return { provider, primary: providers[0] };
+};
+
+/**
+ * Read-only provider, batch reader and indexer for the active network,
+ * rebuilt whenever the network changes.
+ */
+const getNetworkClients = (): NetworkClients => {
+  const network = getActiveNetwork();
+  if (clients?.network !== network) {
+    clients?.eventStream?.stop();
+    clients?.provider.destroy();
+    const { provider, primary } = createReadOnlyProvider(network);
+    clients = {
+      network,
+      provider,
+      // Struct reads (offers, purchases) go through Multicall3 or JSON-RPC batches
+      batchReader: new BatchReader(primary, {
+        chunkSize: env.VITE_RPC_BATCH_SIZE ? Number(env.VITE_RPC_BATCH_SIZE) : undefined,
+        concurrency: env.VITE_RPC_BATCH_CONCURRENCY
+          ? Number(env.VITE_RPC_BATCH_CONCURRENCY)
+          : undefined,
+        multicallAddress: env.VITE_MULTICALL_ADDRESS || undefined,
+      }),
+    };
+  }
+  return clients;
+};
+
+export const getReadOnlyProvider = () => getNetworkClients().provider;
+
+export const getContractAddress = () => getActiveNetwork().marketplaceAddress;
 
 const requireContractAddress = () => {
-  if (!CONTRACT_ADDRESS) {
-    throw new Error("Missing VITE_CONTRACT_ADDRESS environment variable");
+  const network = getActiveNetwork();
+  if (!network.marketplaceAddress) {
+    throw new Error(`No marketplace contract address configured for ${network.name}`);
   }
-  return CONTRACT_ADDRESS;
+  return network.marketplaceAddress;
+};
+
+const getMarketplaceContract = () => {
+  const { provider, batchReader } = getNetworkClients();
+  return new MarketplaceClient(requireContractAddress(), provider, { batchReader });
 };
 
-const getMarketplaceContract = () =>
-  new Contract(requireContractAddress(), abi, readOnlyProvider);
+/**
+ * Local event index, available when IndexedDB exists and the active network has
+ * a deploy block (indexing from genesis would take thousands of log queries).
+ */
+export function getMarketplaceIndexer(): MarketplaceIndexer | null {
+  const networkClients = getNetworkClients();
+  const { network } = networkClients;
+  if (!network.marketplaceAddress || network.deployBlock === 0n || !isIndexedDbAvailable()) {
+    return null;
+  }
+  if (!networkClients.indexer) {
+    networkClients.indexer = new MarketplaceIndexer({
+      client: getMarketplaceContract(),
+      provider: networkClients.provider,
+      chainId: network.chainId,
+      deployBlock: network.deployBlock,
+      confirmations: network.confirmations,
+    });
+  }
+  return networkClients.indexer;
+}
+
+/**
+ * Whether log fallbacks only see the last RECENT_LOG_WINDOW blocks, because the
+ * active network has no deploy block to scan from
+ */
+export const isLogHistoryWindowed = () => getActiveNetwork().deployBlock === 0n;
+
+/**
+ * Logs of one event when the index is unavailable: from the deploy block, or from
+ * RECENT_LOG_WINDOW blocks behind the head without one, since scanning from genesis
+ * would take thousands of log queries
+ */
+async function queryLoggedEvents<N extends MarketplaceEventName>(
+  name: N,
+  filter: MarketplaceEventFilter<N> = {},
+): Promise<MarketplaceEventLog<N>[]> {
+  const { network, provider } = getNetworkClients();
+  const marketplaceContract = getMarketplaceContract();
+  if (network.deployBlock > 0n) {
+    return marketplaceContract.queryEvents(name, filter, network.deployBlock);
+  }
+  const head = await provider.getBlockNumber();
+  return marketplaceContract.queryEvents(
+    name,
+    filter,
+    Math.max(head - RECENT_LOG_WINDOW + 1, 0),
+    head,
+  );
+}
+
+/**
+ * Live event stream for the active network, shared by every subscriber
+ */
+export function getMarketplaceEventStream(): MarketplaceEventStream | null {
+  const networkClients = getNetworkClients();
+  const { network } = networkClients;
+  if (!network.marketplaceAddress) return null;
+  if (!networkClients.eventStream) {
+    networkClients.eventStream = new MarketplaceEventStream({
+      client: getMarketplaceContract(),
+      provider: networkClients.provider,
+      chainId: network.chainId,
+      wsUrl: network.wsUrl,
+      confirmations: network.confirmations,
+    });
+  }
+  return networkClients.eventStream;
+}
+
+// Run a query against the synced local index, or return null so callers fall back to RPC reads
+async function queryIndex<T>(query: (index: MarketplaceIndexer) => Promise<T>): Promise<T | null> {
+  const index = getMarketplaceIndexer();
+  if (!index) return null;
+  try {
+    await index.sync();
+    return await query(index);
+  } catch (error) {
+    console.warn("[Indexer] Falling back to direct contract reads:", error);
+    return null;
+  }
+}
 
 export async function getContractWithSigner(provider: BrowserProvider) {
   const signer = await provider.getSigner();
-  return new Contract(requireContractAddress(), abi, signer);
+  return new MarketplaceClient(requireContractAddress(), signer);
 }
 
 export async function fetchPlatformSettings() {
@@ -41,185 +206,425 @@ export async function fetchPlatformSettings() {
   ]);
 
   return {
-    platformFee: toBigInt(platformFee),
+    platformFee,
     treasury,
-    owner: ownerAddress as string,
+    owner: ownerAddress,
   };
 }
 
-const toBigInt = (value: any): bigint => {
-  if (typeof value === "bigint") return value;
-  if (typeof value === "number") return BigInt(value);
-  if (typeof value === "string") return BigInt(value);
-  if (value && typeof value.toString === "function") {
-    return BigInt(value.toString());
-  }
-  return 0n;
-};
-
-const toHandleString = (value: any): string => {
-  if (!value) return "";
-  if (typeof value === "string") return value;
-  if (typeof value === "bigint") return `0x${value.toString(16)}`;
-  if (typeof value === "object") {
-    if (typeof value.toHexString === "function") {
-      return value.toHexString();
-    }
-    if ("ciphertext" in value && typeof value.ciphertext === "string") {
-      return value.ciphertext;
-    }
-  }
-  return String(value);
-};
-
-const mapOfferStruct = (raw: any): Offer => ({
-  id: toBigInt(raw?.id ?? raw?.[0] ?? 0n),
-  creator: raw?.creator ?? raw?.[1] ?? "",
-  title: raw?.title ?? raw?.[2] ?? "",
-  description: raw?.description ?? raw?.[3] ?? "",
-  publicPrice: toBigInt(raw?.publicPrice ?? raw?.[4] ?? 0n),
-  duration: toBigInt(raw?.duration ?? raw?.[5] ?? 0n),
-  slots: toBigInt(raw?.slots ?? raw?.[6] ?? 0n),
-  availableSlots: toBigInt(raw?.availableSlots ?? raw?.[7] ?? 0n),
-  isActive: Boolean(raw?.isActive ?? raw?.[8] ?? false),
-  createdAt: toBigInt(raw?.createdAt ?? raw?.[9] ?? 0n),
-  expiresAt: toBigInt(raw?.expiresAt ?? raw?.[10] ?? 0n),
-  encryptedPrice: toHandleString(raw?.encryptedPrice ?? raw?.[11]),
-  encryptedDuration: toHandleString(raw?.encryptedDuration ?? raw?.[12]),
-  encryptedSlots: toHandleString(raw?.encryptedSlots ?? raw?.[13]),
-});
-
-const mapPurchaseStruct = (raw: any): Purchase => ({
-  offerId: toBigInt(raw?.offerId ?? raw?.[0] ?? 0n),
-  buyer: raw?.buyer ?? raw?.[1] ?? "",
-  slots: toBigInt(raw?.slots ?? raw?.[2] ?? 0n),
-  totalPrice: toBigInt(raw?.totalPrice ?? raw?.[3] ?? 0n),
-  timestamp: toBigInt(raw?.timestamp ?? raw?.[4] ?? 0n),
-});
-
 export async function fetchContractStats(): Promise<ContractStats> {
   const marketplaceContract = getMarketplaceContract();
   const [totalOffersCreated, totalPurchases, totalVolume, activeOffersCount] =
     await marketplaceContract.getContractStats();
 
   return {
-    totalOffersCreated: toBigInt(totalOffersCreated),
-    totalPurchases: toBigInt(totalPurchases),
-    totalVolume: toBigInt(totalVolume),
-    activeOffersCount: toBigInt(activeOffersCount),
+    totalOffersCreated,
+    totalPurchases,
+    totalVolume,
+    activeOffersCount,
   };
 }
 
 export async function fetchOfferById(id: bigint | number | string): Promise<Offer | null> {
   const offerId = typeof id === "bigint" ? id : BigInt(id);
   const marketplaceContract = getMarketplaceContract();
-  const raw = await marketplaceContract.offers(offerId);
-  const offer = mapOfferStruct(raw);
+  const offer: Offer = await marketplaceContract.offers(offerId);
   if (offer.id === 0n) {
     return null;
   }
   return offer;
 }
 
-export async function fetchActiveOffers(): Promise<Offer[]> {
+// Offers read per multicall batch when streaming the active list
+export const ACTIVE_OFFER_PAGE_SIZE = 100;
+
+const byNewestOffer = (a: Offer, b: Offer) => (a.id === b.id ? 0 : a.id > b.id ? -1 : 1);
+
+/**
+ * Stream active offers, newest first, in pages of `pageSize`.
+ * From the local index the pages are slices of already-synced records; otherwise
+ * the ID list is read once and each page is one batched read of that slice.
+ */
+export async function* iterateActiveOffers(
+  pageSize = ACTIVE_OFFER_PAGE_SIZE,
+): AsyncGenerator<Offer[]> {
+  const indexed = await queryIndex((index) => index.getActiveOffers());
+  if (indexed) {
+    indexed.sort(byNewestOffer);
+    for (let cursor = 0; cursor < indexed.length; cursor += pageSize) {
+      yield indexed.slice(cursor, cursor + pageSize);
+    }
+    return;
+  }
+
   const marketplaceContract = getMarketplaceContract();
-  const ids: bigint[] = await marketplaceContract.getActiveOfferIds();
-  if (!ids.length) return [];
-  const offers = await Promise.all(ids.map((id) => marketplaceContract.offers(id)));
-  return offers
-    .map(mapOfferStruct)
-    .filter((offer) => offer.id !== 0n);
+  const ids = [...(await marketplaceContract.getActiveOfferIds())].sort((a, b) =>
+    a === b ? 0 : a > b ? -1 : 1,
+  );
+  for (let cursor = 0; cursor < ids.length; cursor += pageSize) {
+    const offers: Offer[] = await marketplaceContract.readMany(
+      "offers",
+      ids.slice(cursor, cursor + pageSize).map((id) => [id]),
+    );
+    yield offers.filter((offer) => offer.id !== 0n);
+  }
+}
+
+export async function fetchActiveOffers(): Promise<Offer[]> {
+  const offers: Offer[] = [];
+  for await (const page of iterateActiveOffers()) {
+    offers.push(...page);
+  }
+  return offers;
 }
 
 export async function fetchOffersByCreator(address: string): Promise<Offer[]> {
+  const indexed = await queryIndex((index) => index.getOffersByCreator(address));
+  if (indexed) return indexed;
+
   const marketplaceContract = getMarketplaceContract();
-  const ids: bigint[] = await marketplaceContract.getUserOffers(address);
+  const ids = await marketplaceContract.getUserOffers(address);
   if (!ids.length) return [];
-  const offers = await Promise.all(ids.map((id) => marketplaceContract.offers(id)));
-  return offers
-    .map(mapOfferStruct)
-    .filter((offer) => offer.id !== 0n);
+  const offers: Offer[] = await marketplaceContract.readMany(
+    "offers",
+    ids.map((id) => [id]),
+  );
+  return offers.filter((offer) => offer.id !== 0n);
+}
+
+// requestOfferReveal makes the handles publicly decryptable, so a reveal request is
+// enough for the offer's encrypted terms to be public. Without the index or a deploy
+// block only reveals requested in recent blocks are found.
+export async function fetchRevealedOfferIds(): Promise<Set<bigint>> {
+  const indexed = await queryIndex((index) => index.getRevealedOfferIds());
+  if (indexed) return indexed;
+
+  try {
+    const events = await queryLoggedEvents("TallyRevealRequested");
+    return new Set(events.map((event) => event.args.offerId));
+  } catch (error) {
+    console.warn("[Reveals] TallyRevealRequested log query failed:", error);
+    return new Set();
+  }
 }
 
 export async function fetchEncryptedHandles(offerId: bigint | number | string) {
   const normalizedId = typeof offerId === "bigint" ? offerId : BigInt(offerId);
   const marketplaceContract = getMarketplaceContract();
   const [price, duration, slots] = await marketplaceContract.getEncryptedOfferData(normalizedId);
-  return {
-    price: toHandleString(price),
-    duration: toHandleString(duration),
-    slots: toHandleString(slots),
-  };
+  return { price, duration, slots };
 }
 
-const buildPurchaseKey = (offerId: bigint, slots: bigint, totalPrice: bigint, timestamp: bigint) =>
-  `${offerId}-${slots}-${totalPrice}-${timestamp}`;
+/**
+ * Whether the deployed comparePrices grants its caller access to the result, checked
+ * without a transaction: Multicall3 calls comparePrices, then asks the FHEVM ACL
+ * whether Multicall3, as that caller, may read the result handle.
+ * @param handle - Result handle from a simulated comparePrices of the same pair
+ * @returns null when it cannot be determined, e.g. without Multicall3 on the chain
+ */
+export async function checkComparisonAccess({
+  first,
+  second,
+  handle,
+  aclAddress,
+}: {
+  first: bigint;
+  second: bigint;
+  handle: string;
+  aclAddress: string;
+}): Promise<boolean | null> {
+  const { batchReader } = getNetworkClients();
+  try {
+    const results = await batchReader.callInSequence([
+      {
+        target: requireContractAddress(),
+        callData: marketplaceInterface.encodeFunctionData("comparePrices", [first, second]),
+      },
+      {
+        target: aclAddress,
+        callData: aclInterface.encodeFunctionData("isAllowed", [
+          handle,
+          batchReader.multicallAddress,
+        ]),
+      },
+    ]);
+    const [compared, allowed] = results ?? [];
+    if (!compared?.success || !allowed?.success) return null;
+
+    // The ACL lookup only speaks for the simulated handle if the call produced the same one
+    const [comparedHandle] = marketplaceInterface.decodeFunctionResult(
+      "comparePrices",
+      compared.returnData,
+    );
+    if (String(comparedHandle).toLowerCase() !== handle.toLowerCase()) return null;
+    return Boolean(aclInterface.decodeFunctionResult("isAllowed", allowed.returnData)[0]);
+  } catch (error) {
+    console.warn("[Compare] ACL access check failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Why a purchase could not be linked to its transaction:
+ * - outside-log-range: no matching OfferPurchased log in the scanned range (from the deploy
+ *   block, or only recent blocks when the network has none)
+ * - event-mismatch: the log at the purchase's position disagrees with the stored purchase
+ * - log-query-failed: the RPC rejected the log query
+ */
+export type PurchaseTxUnresolvedReason =
+  | "outside-log-range"
+  | "event-mismatch"
+  | "log-query-failed";
 
 export type PurchaseHistoryItem = Purchase & {
   id: bigint;
-  txHash?: string | null;
   offer?: Offer;
+} & (
+    | { txHash: string; txUnresolvedReason?: undefined }
+    | { txHash: null; txUnresolvedReason: PurchaseTxUnresolvedReason }
+  );
+
+async function fetchIndexedPurchaseHistory(
+  index: MarketplaceIndexer,
+  address: string,
+): Promise<PurchaseHistoryItem[]> {
+  const purchases = await index.getPurchasesByBuyer(address);
+  const offerIds = Array.from(new Set(purchases.map((purchase) => purchase.offerId)));
+  const offers = await Promise.all(offerIds.map((offerId) => index.getOffer(offerId)));
+  const offersMap = new Map(offerIds.map((offerId, i) => [offerId, offers[i] ?? undefined]));
+
+  return purchases.map(({ id, offerId, buyer, slots, totalPrice, timestamp, txHash }) => ({
+    id,
+    offerId,
+    buyer,
+    slots,
+    totalPrice,
+    timestamp,
+    txHash,
+    offer: offersMap.get(offerId),
+  }));
+}
+
+export type CreatorSale = {
+  offerId: bigint;
+  buyer: string;
+  slots: bigint;
+  totalPrice: bigint;
+  timestamp: bigint;
+  txHash: string;
+  blockNumber: number;
+  /** Platform fee in basis points in force when the purchase was mined */
+  feeBps: bigint;
+  /** False when historical state was unavailable and the current fee stands in */
+  feeBpsAtPurchase: boolean;
 };
 
-export async function fetchPurchaseHistory(address: string): Promise<PurchaseHistoryItem[]> {
+type UnpricedSale = Omit<CreatorSale, "feeBps" | "feeBpsAtPurchase">;
+
+// platformFee changes emit no event, so the rate behind each purchase is read from the
+// contract state at the purchase's block. Blocks whose state is unavailable (pruned by a
+// non-archive node) are left out, for the caller to price at the current fee.
+async function fetchPlatformFeesAt(blockNumbers: number[]): Promise<Map<number, bigint>> {
   const marketplaceContract = getMarketplaceContract();
-  const ids: bigint[] = await marketplaceContract.getUserPurchases(address);
-  if (!ids.length) {
-    return [];
+  const unique = [...new Set(blockNumbers)];
+  let failures = 0;
+  const fees = await mapWithConcurrency(unique, HISTORICAL_READ_CONCURRENCY, (blockNumber) =>
+    marketplaceContract.readAt(blockNumber, "platformFee").catch(() => {
+      failures += 1;
+      return null;
+    }),
+  );
+  if (failures) {
+    console.warn(
+      `[Earnings] Fee reads failed at ${failures} block(s), using the current fee there`,
+    );
   }
-
-  const purchaseStructs = await Promise.all(
-    ids.map(async (id) => {
-      const raw = await marketplaceContract.purchases(id);
-      return { id, purchase: mapPurchaseStruct(raw) };
+  return new Map(
+    unique.flatMap((blockNumber, index) => {
+      const fee = fees[index];
+      return fee === null ? [] : [[blockNumber, fee] as const];
     }),
   );
+}
 
-  const offerIds = Array.from(new Set(purchaseStructs.map(({ purchase }) => purchase.offerId)));
-  const offersEntries = await Promise.all(
-    offerIds.map(async (offerId) => {
-      const raw = await marketplaceContract.offers(offerId);
-      return { offerId, offer: mapOfferStruct(raw) };
-    }),
+async function fetchLoggedSales(offerIds: Set<bigint>): Promise<UnpricedSale[]> {
+  const sales = await queryLoggedEvents("OfferPurchased", { offerId: [...offerIds] });
+  const timestamps = await getBlockTimestamps(
+    getReadOnlyProvider(),
+    sales.map(({ log }) => log.blockNumber),
   );
-  const offersMap = new Map(offersEntries.map(({ offerId, offer }) => [offerId, offer]));
-
-  const filter = marketplaceContract.filters.OfferPurchased(null, address);
-  const logs = await readOnlyProvider.getLogs({
-    address: requireContractAddress(),
-    topics: filter.topics ?? [],
-    fromBlock: DEPLOY_BLOCK,
-    toBlock: "latest",
+
+  return sales.map(({ args, log }) => ({
+    offerId: args.offerId,
+    buyer: args.buyer,
+    slots: args.slots,
+    totalPrice: args.totalPrice,
+    timestamp: timestamps.get(log.blockNumber) ?? 0n,
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+  }));
+}
+
+/**
+ * Every purchase of the creator's offers, from OfferPurchased logs, oldest first.
+ * totalPrice is what the buyer paid, so reveal callbacks that later change an offer's
+ * public price do not distort past sales.
+ */
+export async function fetchCreatorSales(address: string): Promise<CreatorSale[]> {
+  const offers = await fetchOffersByCreator(address);
+  const offerIds = new Set(offers.map((offer) => offer.id));
+  if (!offerIds.size) return [];
+
+  const indexed = await queryIndex(async (index) => {
+    const purchases = await Promise.all([...offerIds].map((id) => index.getPurchasesByOffer(id)));
+    return purchases.flat();
   });
+  const sales: UnpricedSale[] =
+    indexed?.map(({ offerId, buyer, slots, totalPrice, timestamp, txHash, blockNumber }) => ({
+      offerId,
+      buyer,
+      slots,
+      totalPrice,
+      timestamp,
+      txHash,
+      blockNumber,
+    })) ?? (await fetchLoggedSales(offerIds));
+  sales.sort((a, b) => a.blockNumber - b.blockNumber);
 
-  const blocks = await Promise.all(logs.map((log) => readOnlyProvider.getBlock(log.blockNumber)));
-  const eventMap = new Map<string, string>();
-  logs.forEach((log, index) => {
-    try {
-      const parsed = marketplaceInterface.parseLog(log);
-      const offerId = toBigInt(parsed.args.offerId);
-      const slots = toBigInt(parsed.args.slots);
-      const totalPrice = toBigInt(parsed.args.totalPrice);
-      const timestamp = toBigInt(blocks[index]?.timestamp ?? 0);
-      const key = buildPurchaseKey(offerId, slots, totalPrice, timestamp);
-      eventMap.set(key, log.transactionHash);
-    } catch {
-      /* ignore parse errors */
-    }
+  const feesAtBlock = await fetchPlatformFeesAt(sales.map((sale) => sale.blockNumber));
+  const currentFee = sales.every((sale) => feesAtBlock.has(sale.blockNumber))
+    ? 0n
+    : await getMarketplaceContract().platformFee();
+
+  return sales.map((sale) => {
+    const historical = feesAtBlock.get(sale.blockNumber);
+    return historical === undefined
+      ? { ...sale, feeBps: currentFee, feeBpsAtPurchase: false }
+      : { ...sale, feeBps: historical, feeBpsAtPurchase: true };
   });
+}
 
-  return purchaseStructs.map(({ id, purchase }) => {
-    const key = buildPurchaseKey(
-      purchase.offerId,
-      purchase.slots,
-      purchase.totalPrice,
-      purchase.timestamp,
-    );
-    return {
+export async function fetchPurchaseHistory(address: string): Promise<PurchaseHistoryItem[]> {
+  const indexed = await queryIndex((index) => fetchIndexedPurchaseHistory(index, address));
+  if (indexed) return indexed;
+
+  const marketplaceContract = getMarketplaceContract();
+  const ids = await marketplaceContract.getUserPurchases(address);
+  if (!ids.length) {
+    return [];
+  }
+
+  const purchases: Purchase[] = await marketplaceContract.readMany(
+    "purchases",
+    ids.map((id) => [id]),
+  );
+  const purchaseStructs = ids.map((id, index) => ({ id, purchase: purchases[index] }));
+
+  const offerIds = Array.from(new Set(purchases.map((purchase) => purchase.offerId)));
+  const offers: Offer[] = await marketplaceContract.readMany(
+    "offers",
+    offerIds.map((offerId) => [offerId]),
+  );
+  const offersMap = new Map(offerIds.map((offerId, index) => [offerId, offers[index]]));
+
+  let events: MarketplaceEventLog<"OfferPurchased">[];
+  try {
+    events = await queryLoggedEvents("OfferPurchased", { buyer: address });
+  } catch (error) {
+    console.warn("[Purchases] OfferPurchased log query failed:", error);
+    return purchaseStructs.map(({ id, purchase }): PurchaseHistoryItem => ({
       ...purchase,
       id,
-      txHash: eventMap.get(key),
       offer: offersMap.get(purchase.offerId),
-    };
+      txHash: null,
+      txUnresolvedReason: "log-query-failed",
+    }));
+  }
+
+  // getUserPurchases lists IDs in purchase order and every purchase emits exactly one
+  // OfferPurchased log for the buyer, so the i-th ID from the end pairs with the i-th log
+  // from the end. Aligning on the tail tolerates purchases older than the scanned range.
+  events.sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+  const offset = events.length - purchaseStructs.length;
+  const timestamps = await getBlockTimestamps(
+    getReadOnlyProvider(),
+    events.slice(Math.max(offset, 0)).map(({ log }) => log.blockNumber),
+  );
+
+  return purchaseStructs.map(({ id, purchase }, index): PurchaseHistoryItem => {
+    const offer = offersMap.get(purchase.offerId);
+    const event = events[index + offset];
+    if (!event) {
+      return { ...purchase, id, offer, txHash: null, txUnresolvedReason: "outside-log-range" };
+    }
+
+    const { args, log } = event;
+    const matches =
+      args.offerId === purchase.offerId &&
+      args.slots === purchase.slots &&
+      args.totalPrice === purchase.totalPrice &&
+      timestamps.get(log.blockNumber) === purchase.timestamp;
+
+    return matches
+      ? { ...purchase, id, offer, txHash: log.transactionHash }
+      : { ...purchase, id, offer, txHash: null, txUnresolvedReason: "event-mismatch" };
   });
 }
+
+export function parseOfferCreatedEvent(
+  receipt: TransactionReceipt | null,
+): OfferCreatedEvent | null {
+  if (!receipt) return null;
+  const marketplaceContract = getMarketplaceContract();
+
+  for (const log of receipt.logs) {
+    const event = marketplaceContract.parseLog(log);
+    if (event?.name === "OfferCreated") {
+      return event.args;
+    }
+  }
+
+  return null;
+}
+
+export function parseOfferPurchasedEvent(
+  receipt: TransactionReceipt | null,
+): OfferPurchasedEvent | null {
+  if (!receipt) return null;
+  const marketplaceContract = getMarketplaceContract();
+
+  for (const log of receipt.logs) {
+    const event = marketplaceContract.parseLog(log);
+    if (event?.name === "OfferPurchased") {
+      return event.args;
+    }
+  }
+
+  return null;
+}
+
+export function parseTallyRevealRequestedEvent(
+  receipt: TransactionReceipt | null,
+): TallyRevealRequestedEvent | null {
+  if (!receipt) return null;
+  const marketplaceContract = getMarketplaceContract();
+
+  for (const log of receipt.logs) {
+    const event = marketplaceContract.parseLog(log);
+    if (event?.name === "TallyRevealRequested") {
+      return event.args;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Receive confirmed marketplace events on the active network as they are mined.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToMarketplaceEvents(
+  onEvent: (event: MarketplaceEvent) => void,
+): () => void {
+  return getMarketplaceEventStream()?.subscribe(onEvent) ?? (() => {});
+}
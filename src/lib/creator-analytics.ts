@@ -0,0 +1,152 @@
+/**
+ * Creator earnings analytics
+ * Aggregates a creator's OfferPurchased sales into gross sales, the platform fee taken
+ * at the rate in force for each purchase, net payout and distinct buyers, overall and
+ * per offer, plus day or week buckets for the sales charts.
+ */
+
+import { formatEther } from "ethers";
+import type { Offer } from "@/types/contract";
+import type { CreatorSale } from "@/lib/contract-client";
+
+// platformFee is in basis points: purchaseOffer takes totalPrice * platformFee / 10000
+const FEE_DENOMINATOR = 10_000n;
+
+const DAY_SECONDS = 86_400;
+
+export type EarningsTotals = {
+  grossWei: bigint;
+  feeWei: bigint;
+  netWei: bigint;
+  slotsSold: bigint;
+  purchases: number;
+  buyers: number;
+};
+
+export type OfferEarnings = EarningsTotals & {
+  offerId: bigint;
+  offer?: Offer;
+};
+
+export type CreatorEarnings = {
+  totals: EarningsTotals;
+  /** Offers with at least one sale, highest net payout first */
+  byOffer: OfferEarnings[];
+  /** Some fees were computed at the current rate because historical state was unavailable */
+  hasEstimatedFees: boolean;
+};
+
+export type SalesPeriod = "day" | "week";
+
+export type SalesBucket = {
+  /** Start of the period, unix seconds (UTC) */
+  start: number;
+  label: string;
+  grossEth: number;
+  netEth: number;
+  feeEth: number;
+  slots: number;
+};
+
+// Most recent periods kept in a chart; older sales still count in the totals
+export const MAX_SALES_BUCKETS: Record<SalesPeriod, number> = { day: 90, week: 52 };
+
+/** Fee the contract deducted from a sale, rounded down like the contract */
+export const saleFee = (sale: CreatorSale) => (sale.totalPrice * sale.feeBps) / FEE_DENOMINATOR;
+
+function sumSales(sales: CreatorSale[]): EarningsTotals {
+  const totals = sales.reduce(
+    (sum, sale) => {
+      const fee = saleFee(sale);
+      return {
+        grossWei: sum.grossWei + sale.totalPrice,
+        feeWei: sum.feeWei + fee,
+        slotsSold: sum.slotsSold + sale.slots,
+      };
+    },
+    { grossWei: 0n, feeWei: 0n, slotsSold: 0n },
+  );
+  return {
+    ...totals,
+    netWei: totals.grossWei - totals.feeWei,
+    purchases: sales.length,
+    buyers: new Set(sales.map((sale) => sale.buyer.toLowerCase())).size,
+  };
+}
+
+export function summarizeCreatorEarnings(sales: CreatorSale[], offers: Offer[]): CreatorEarnings {
+  const salesByOffer = new Map<bigint, CreatorSale[]>();
+  sales.forEach((sale) => {
+    salesByOffer.set(sale.offerId, [...(salesByOffer.get(sale.offerId) ?? []), sale]);
+  });
+  const offersById = new Map(offers.map((offer) => [offer.id, offer]));
+
+  const byOffer = [...salesByOffer].map(([offerId, offerSales]): OfferEarnings => ({
+    ...sumSales(offerSales),
+    offerId,
+    offer: offersById.get(offerId),
+  }));
+  byOffer.sort((a, b) => (a.netWei === b.netWei ? 0 : a.netWei > b.netWei ? -1 : 1));
+
+  return {
+    totals: sumSales(sales),
+    byOffer,
+    hasEstimatedFees: sales.some((sale) => !sale.feeBpsAtPurchase),
+  };
+}
+
+// 1970-01-01 was a Thursday; shifting by 3 days makes weeks start on Monday
+const periodStart = (timestamp: number, period: SalesPeriod) => {
+  const day = Math.floor(timestamp / DAY_SECONDS);
+  return (period === "day" ? day : day - ((day + 3) % 7)) * DAY_SECONDS;
+};
+
+const formatPeriodLabel = (start: number) =>
+  new Date(start * 1000).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * Sales grouped into consecutive UTC days or weeks up to `now`, including empty
+ * periods, limited to the most recent MAX_SALES_BUCKETS
+ */
+export function bucketSales(
+  sales: CreatorSale[],
+  period: SalesPeriod,
+  now = Math.floor(Date.now() / 1000),
+): SalesBucket[] {
+  if (!sales.length) return [];
+
+  const step = (period === "day" ? 1 : 7) * DAY_SECONDS;
+  const last = periodStart(now, period);
+  const earliest = periodStart(Number(sales[0].timestamp), period);
+  const first = Math.max(earliest, last - (MAX_SALES_BUCKETS[period] - 1) * step);
+
+  const totals = new Map<number, { gross: bigint; fee: bigint; slots: bigint }>();
+  sales.forEach((sale) => {
+    const start = periodStart(Number(sale.timestamp), period);
+    if (start < first) return;
+    const current = totals.get(start) ?? { gross: 0n, fee: 0n, slots: 0n };
+    totals.set(start, {
+      gross: current.gross + sale.totalPrice,
+      fee: current.fee + saleFee(sale),
+      slots: current.slots + sale.slots,
+    });
+  });
+
+  const buckets: SalesBucket[] = [];
+  for (let start = first; start <= last; start += step) {
+    const { gross, fee, slots } = totals.get(start) ?? { gross: 0n, fee: 0n, slots: 0n };
+    buckets.push({
+      start,
+      label: formatPeriodLabel(start),
+      grossEth: Number(formatEther(gross)),
+      netEth: Number(formatEther(gross - fee)),
+      feeEth: Number(formatEther(fee)),
+      slots: Number(slots),
+    });
+  }
+  return buckets;
+}
@@ -0,0 +1,338 @@
+/**
+ * Local event indexer for TimeMarketplaceFHE
+ * Ingests marketplace events in chunked block ranges and persists the derived
+ * offers, purchases and reveal requests in IndexedDB, resuming from the last
+ * indexed block on every sync.
+ */
+
+import type { Provider } from "ethers";
+import type { Offer, Purchase } from "@/types/contract";
+import {
+  LOG_QUERY_CHUNK_SIZE,
+  marketplaceInterface,
+  type MarketplaceClient,
+  type MarketplaceEvent,
+  type MarketplaceEventName,
+} from "@/lib/marketplace-client";
+import {
+  INDEXER_STORES,
+  clearStores,
+  getAllRecords,
+  getRecord,
+  openIndexerDb,
+  putRecords,
+} from "@/lib/indexer-db";
+import { getBlockTimestamps } from "@/lib/block-timestamps";
+
+const META_KEY = "sync";
+
+// PublicDecryptionVerified is emitted by resolveOfferCallback; it carries no offer ID,
+// so the offer is found through the reveal request that produced the same price handle.
+const INDEXED_EVENTS: MarketplaceEventName[] = [
+  "OfferCreated",
+  "OfferPurchased",
+  "OfferDeactivated",
+  "TallyRevealRequested",
+  "PublicDecryptionVerified",
+];
+
+export type IndexedPurchase = Purchase & {
+  id: bigint;
+  slotsLeft: bigint;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+};
+
+export type IndexedRevealRequest = {
+  offerId: bigint;
+  priceHandle: string;
+  slotsHandle: string;
+  txHash: string;
+  blockNumber: number;
+};
+
+export type IndexerSyncResult = {
+  fromBlock: number;
+  toBlock: number;
+  eventsIndexed: number;
+};
+
+export type MarketplaceIndexerOptions = {
+  client: MarketplaceClient;
+  provider: Provider;
+  chainId: number;
+  /** Must be at or before the deployment block: purchase IDs are assigned by event order. */
+  deployBlock: bigint;
+  /** Blocks behind the head left unindexed, so a reorg cannot rewrite stored purchase IDs */
+  confirmations?: number;
+  chunkSize?: number;
+};
+
+type SyncMeta = { key: string; lastBlock: number; purchaseCount: number };
+type OfferRecord = Offer & { key: string; creatorKey: string };
+type PurchaseRecord = IndexedPurchase & { key: string; buyerKey: string; offerKey: string };
+type RevealRecord = IndexedRevealRequest & { key: string; offerKey: string };
+
+const stripOffer = ({ key, creatorKey, ...offer }: OfferRecord): Offer => offer;
+const stripPurchase = ({
+  key,
+  buyerKey,
+  offerKey,
+  ...purchase
+}: PurchaseRecord): IndexedPurchase => purchase;
+const stripReveal = ({ key, offerKey, ...reveal }: RevealRecord): IndexedRevealRequest => reveal;
+
+const byPurchaseId = (a: IndexedPurchase, b: IndexedPurchase) =>
+  a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+export class MarketplaceIndexer {
+  private readonly client: MarketplaceClient;
+  private readonly provider: Provider;
+  private readonly deployBlock: number;
+  private readonly confirmations: number;
+  private readonly chunkSize: number;
+  private readonly dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private syncPromise: Promise<IndexerSyncResult> | null = null;
+
+  constructor({
+    client,
+    provider,
+    chainId,
+    deployBlock,
+    confirmations,
+    chunkSize,
+  }: MarketplaceIndexerOptions) {
+    this.client = client;
+    this.provider = provider;
+    this.deployBlock = Number(deployBlock);
+    this.confirmations = confirmations ?? 0;
+    this.chunkSize = chunkSize ?? LOG_QUERY_CHUNK_SIZE;
+    this.dbName = `time-marketplace-index-${chainId}-${client.address.toLowerCase()}`;
+  }
+
+  private getDb() {
+    if (!this.dbPromise) {
+      this.dbPromise = openIndexerDb(this.dbName).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getMeta(): Promise<SyncMeta> {
+    const db = await this.getDb();
+    const meta = await getRecord<SyncMeta>(db, INDEXER_STORES.meta, META_KEY);
+    return meta ?? { key: META_KEY, lastBlock: this.deployBlock - 1, purchaseCount: 0 };
+  }
+
+  /**
+   * Index every block between the high-water mark and the last block at least
+   * `confirmations` deep. Concurrent callers share the same in-flight sync.
+   */
+  sync(): Promise<IndexerSyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<IndexerSyncResult> {
+    let meta = await this.getMeta();
+    const toBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+    const fromBlock = meta.lastBlock + 1;
+    let eventsIndexed = 0;
+
+    for (let start = fromBlock; start <= toBlock; start += this.chunkSize) {
+      const end = Math.min(start + this.chunkSize - 1, toBlock);
+      const { meta: nextMeta, count } = await this.ingestRange(start, end, meta);
+      meta = nextMeta;
+      eventsIndexed += count;
+    }
+
+    return { fromBlock, toBlock, eventsIndexed };
+  }
+
+  private async ingestRange(fromBlock: number, toBlock: number, meta: SyncMeta) {
+    const db = await this.getDb();
+    const topics = INDEXED_EVENTS.map((name) => marketplaceInterface.getEvent(name).topicHash);
+    const logs = await this.provider.getLogs({
+      address: this.client.address,
+      topics: [topics],
+      fromBlock,
+      toBlock,
+    });
+
+    const events = logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => this.client.parseLog(log))
+      .filter((event): event is MarketplaceEvent => event !== null);
+
+    const timestamps = await getBlockTimestamps(
+      this.provider,
+      events.filter((event) => event.name === "OfferPurchased").map(({ log }) => log.blockNumber),
+    );
+
+    const touchedOffers = new Set<bigint>();
+    const purchases: PurchaseRecord[] = [];
+    const reveals: RevealRecord[] = [];
+    let purchaseCount = meta.purchaseCount;
+
+    for (const event of events) {
+      switch (event.name) {
+        case "OfferCreated":
+        case "OfferDeactivated":
+          touchedOffers.add(event.args.offerId);
+          break;
+        case "OfferPurchased": {
+          const { offerId, buyer, slots, totalPrice, slotsLeft } = event.args;
+          purchaseCount += 1;
+          touchedOffers.add(offerId);
+          purchases.push({
+            key: purchaseCount.toString(),
+            buyerKey: buyer.toLowerCase(),
+            offerKey: offerId.toString(),
+            id: BigInt(purchaseCount),
+            offerId,
+            buyer,
+            slots,
+            totalPrice,
+            slotsLeft,
+            timestamp: timestamps.get(event.log.blockNumber) ?? 0n,
+            txHash: event.log.transactionHash,
+            blockNumber: event.log.blockNumber,
+            logIndex: event.log.index,
+          });
+          break;
+        }
+        case "TallyRevealRequested": {
+          const { offerId, priceHandle, slotsHandle } = event.args;
+          touchedOffers.add(offerId);
+          reveals.push({
+            key: `${event.log.blockNumber}-${event.log.index}`,
+            offerKey: offerId.toString(),
+            offerId,
+            priceHandle: priceHandle.toLowerCase(),
+            slotsHandle: slotsHandle.toLowerCase(),
+            txHash: event.log.transactionHash,
+            blockNumber: event.log.blockNumber,
+          });
+          break;
+        }
+        case "PublicDecryptionVerified": {
+          const [priceHandle = ""] = event.args.handlesList;
+          const handle = priceHandle.toLowerCase();
+          const reveal =
+            reveals.find((item) => item.priceHandle === handle) ??
+            (
+              await getAllRecords<RevealRecord>(db, INDEXER_STORES.reveals, "priceHandle", handle)
+            )[0];
+          if (reveal) touchedOffers.add(reveal.offerId);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    const offers: OfferRecord[] = (
+      await this.client.readMany(
+        "offers",
+        [...touchedOffers].map((offerId) => [offerId]),
+      )
+    )
+      .filter((offer) => offer.id !== 0n)
+      .map((offer) => ({
+        ...offer,
+        key: offer.id.toString(),
+        creatorKey: offer.creator.toLowerCase(),
+      }));
+
+    const nextMeta: SyncMeta = { key: META_KEY, lastBlock: toBlock, purchaseCount };
+    await putRecords(db, {
+      [INDEXER_STORES.offers]: offers,
+      [INDEXER_STORES.purchases]: purchases,
+      [INDEXER_STORES.reveals]: reveals,
+      [INDEXER_STORES.meta]: [nextMeta],
+    });
+
+    return { meta: nextMeta, count: events.length };
+  }
+
+  async getLastIndexedBlock(): Promise<number> {
+    return (await this.getMeta()).lastBlock;
+  }
+
+  async getOffer(offerId: bigint): Promise<Offer | null> {
+    const db = await this.getDb();
+    const record = await getRecord<OfferRecord>(db, INDEXER_STORES.offers, offerId.toString());
+    return record ? stripOffer(record) : null;
+  }
+
+  async getActiveOffers(): Promise<Offer[]> {
+    const db = await this.getDb();
+    const records = await getAllRecords<OfferRecord>(db, INDEXER_STORES.offers);
+    return records.map(stripOffer).filter((offer) => offer.isActive);
+  }
+
+  async getOffersByCreator(address: string): Promise<Offer[]> {
+    const db = await this.getDb();
+    const records = await getAllRecords<OfferRecord>(
+      db,
+      INDEXER_STORES.offers,
+      "creator",
+      address.toLowerCase(),
+    );
+    return records.map(stripOffer);
+  }
+
+  async getPurchasesByBuyer(address: string): Promise<IndexedPurchase[]> {
+    const db = await this.getDb();
+    const records = await getAllRecords<PurchaseRecord>(
+      db,
+      INDEXER_STORES.purchases,
+      "buyer",
+      address.toLowerCase(),
+    );
+    return records.map(stripPurchase).sort(byPurchaseId);
+  }
+
+  async getPurchasesByOffer(offerId: bigint): Promise<IndexedPurchase[]> {
+    const db = await this.getDb();
+    const records = await getAllRecords<PurchaseRecord>(
+      db,
+      INDEXER_STORES.purchases,
+      "offer",
+      offerId.toString(),
+    );
+    return records.map(stripPurchase).sort(byPurchaseId);
+  }
+
+  async getRevealRequests(offerId: bigint): Promise<IndexedRevealRequest[]> {
+    const db = await this.getDb();
+    const records = await getAllRecords<RevealRecord>(
+      db,
+      INDEXER_STORES.reveals,
+      "offer",
+      offerId.toString(),
+    );
+    return records.map(stripReveal).sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  /** Offers whose encrypted terms were made publicly decryptable by a reveal request */
+  async getRevealedOfferIds(): Promise<Set<bigint>> {
+    const db = await this.getDb();
+    const records = await getAllRecords<RevealRecord>(db, INDEXER_STORES.reveals);
+    return new Set(records.map((record) => record.offerId));
+  }
+
+  /** Drop all indexed data; the next sync starts again from the deploy block. */
+  async reset(): Promise<void> {
+    const db = await this.getDb();
+    await clearStores(db);
+  }
+}
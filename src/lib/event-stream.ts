@@ -0,0 +1,218 @@
+/**
+ * Live marketplace event stream
+ * Follows the chain head over a WebSocket block subscription when one is configured,
+ * or by polling the block number, and delivers contract logs once they are
+ * `confirmations` blocks deep. The hash of the last scanned block is re-checked on
+ * every advance: when it changed, a reorg outran the confirmation depth and the
+ * stream rescans the recent window, skipping logs it already delivered.
+ */
+
+import { WebSocketProvider, type Log, type Provider } from "ethers";
+import type { MarketplaceClient, MarketplaceEvent } from "@/lib/marketplace-client";
+
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+// Blocks rescanned past the confirmation depth after a reorg is detected
+const REORG_RESCAN_BLOCKS = 12;
+// A tab waking from sleep only catches up this far; older changes come from refetches
+const MAX_CATCH_UP_BLOCKS = 2_000;
+
+export type EventStreamTransport = "websocket" | "polling";
+
+export type MarketplaceEventStreamOptions = {
+  client: MarketplaceClient;
+  /** HTTP provider used for block and log reads, and for polling */
+  provider: Provider;
+  chainId: number;
+  wsUrl?: string | null;
+  confirmations: number;
+  pollIntervalMs?: number;
+};
+
+type ScannedBlock = { number: number; hash: string };
+
+// Content-based so a transaction re-included after a reorg is not delivered twice
+const logKey = (log: Log) => `${log.transactionHash}:${log.topics.join(",")}:${log.data}`;
+
+export class MarketplaceEventStream {
+  private readonly options: MarketplaceEventStreamOptions;
+  private readonly listeners = new Set<(event: MarketplaceEvent) => void>();
+  private readonly delivered = new Map<string, number>();
+  private wsProvider: WebSocketProvider | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private head = -1;
+  private cursor: ScannedBlock | null = null;
+  private advancing: Promise<void> | null = null;
+  private currentTransport: EventStreamTransport | null = null;
+
+  constructor(options: MarketplaceEventStreamOptions) {
+    this.options = options;
+  }
+
+  get transport() {
+    return this.currentTransport;
+  }
+
+  /** Start streaming on the first subscriber and stop after the last one leaves */
+  subscribe(listener: (event: MarketplaceEvent) => void): () => void {
+    this.listeners.add(listener);
+    if (!this.running) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  stop(): void {
+    this.running = false;
+    this.currentTransport = null;
+    this.cursor = null;
+    this.head = -1;
+    this.delivered.clear();
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+    this.closeWebSocket();
+  }
+
+  private start() {
+    this.running = true;
+    if (this.options.wsUrl) {
+      this.startWebSocket(this.options.wsUrl);
+    } else {
+      this.startPolling();
+    }
+  }
+
+  private startWebSocket(url: string) {
+    this.currentTransport = "websocket";
+    const fallBack = (reason: unknown) => {
+      if (!this.running || this.currentTransport !== "websocket") return;
+      console.warn("[Events] WebSocket unavailable, polling for blocks instead:", reason);
+      this.closeWebSocket();
+      this.startPolling();
+    };
+
+    try {
+      const provider = new WebSocketProvider(
+        () => {
+          const socket = new WebSocket(url);
+          socket.addEventListener("error", () => fallBack("connection error"));
+          socket.addEventListener("close", (event) => fallBack(`closed (${event.code})`));
+          return socket;
+        },
+        this.options.chainId,
+        { staticNetwork: true },
+      );
+      this.wsProvider = provider;
+      provider.on("block", (blockNumber: number) => this.onHead(blockNumber)).catch(fallBack);
+    } catch (error) {
+      fallBack(error);
+    }
+  }
+
+  private closeWebSocket() {
+    const provider = this.wsProvider;
+    this.wsProvider = null;
+    if (provider) {
+      provider.destroy().catch(() => {
+        /* socket already closed */
+      });
+    }
+  }
+
+  private startPolling() {
+    this.currentTransport = "polling";
+    const poll = async () => {
+      if (!this.running) return;
+      try {
+        this.onHead(await this.options.provider.getBlockNumber());
+      } catch (error) {
+        console.warn("[Events] Block number poll failed:", error);
+      }
+      if (this.running && this.currentTransport === "polling") {
+        this.pollTimer = setTimeout(poll, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      }
+    };
+    poll();
+  }
+
+  private onHead(blockNumber: number) {
+    this.head = Math.max(this.head, blockNumber);
+    if (this.advancing) return;
+
+    // Heads that arrive mid-scan are picked up by the loop
+    this.advancing = (async () => {
+      let target = -1;
+      while (this.running && target !== this.head) {
+        target = this.head;
+        try {
+          await this.advance(target - this.options.confirmations);
+        } catch (error) {
+          console.warn("[Events] Log scan failed, retrying on the next block:", error);
+          break;
+        }
+      }
+    })().finally(() => {
+      this.advancing = null;
+    });
+  }
+
+  private async advance(safeBlock: number) {
+    const { provider, client, confirmations } = this.options;
+    if (safeBlock < 0) return;
+
+    // The first head only sets the starting point; history is the queries' job
+    if (!this.cursor) {
+      const block = await provider.getBlock(safeBlock);
+      if (block?.hash) this.cursor = { number: block.number, hash: block.hash };
+      return;
+    }
+
+    let fromBlock = this.cursor.number + 1;
+    const scanned = await provider.getBlock(this.cursor.number);
+    if (scanned?.hash && scanned.hash !== this.cursor.hash) {
+      console.warn(`[Events] Reorg detected at block ${this.cursor.number}, rescanning`);
+      fromBlock = Math.max(this.cursor.number - confirmations - REORG_RESCAN_BLOCKS, 0);
+    }
+    if (safeBlock < fromBlock) return;
+    fromBlock = Math.max(fromBlock, safeBlock - MAX_CATCH_UP_BLOCKS + 1);
+
+    // Pin the hash before reading logs so a reorg during the read shows up next time
+    const safe = await provider.getBlock(safeBlock);
+    if (!safe?.hash) return;
+
+    const logs = await provider.getLogs({
+      address: client.address,
+      fromBlock,
+      toBlock: safeBlock,
+    });
+    if (!this.running) return;
+
+    logs
+      .filter((log) => !log.removed)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .forEach((log) => {
+        const key = logKey(log);
+        if (this.delivered.has(key)) return;
+        this.delivered.set(key, log.blockNumber);
+
+        const event = client.parseLog(log);
+        if (!event) return;
+        this.listeners.forEach((listener) => {
+          try {
+            listener(event);
+          } catch (error) {
+            console.error("[Events] Listener failed:", error);
+          }
+        });
+      });
+
+    this.cursor = { number: safe.number, hash: safe.hash };
+
+    // Only logs inside the rescan window can be seen again
+    const horizon = safe.number - confirmations - REORG_RESCAN_BLOCKS;
+    for (const [key, blockNumber] of this.delivered) {
+      if (blockNumber < horizon) this.delivered.delete(key);
+    }
+  }
+}
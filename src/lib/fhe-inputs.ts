@@ -0,0 +1,159 @@
+/**
+ * Typed FHEVM encrypted inputs
+ * Maps each encrypted Solidity type to its relayer SDK method and validates values
+ * against the type's range before encryption, since the SDK would otherwise reject
+ * or truncate them.
+ */
+
+import { getAddress, hexlify, isAddress } from "ethers";
+import { getFHEInstance } from "@/lib/fhe";
+import { maxEncryptedUint, type EncryptedType, type EncryptedUintType } from "@/lib/fhe-types";
+
+export type EncryptedValueOf<T extends EncryptedType> = T extends "ebool"
+  ? boolean
+  : T extends "eaddress"
+    ? string
+    : number | bigint;
+
+export type EncryptedField<T extends EncryptedType = EncryptedType> = {
+  type: T;
+  value: EncryptedValueOf<T>;
+  /** Used in validation errors, e.g. "Price" */
+  label?: string;
+};
+
+export type EncryptedInputs = {
+  handles: string[];
+  proof: string;
+};
+
+const toBigInt = (value: number | bigint, name: string) => {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    throw new RangeError(`${name} must be a whole number, got ${value}.`);
+  }
+  return BigInt(value);
+};
+
+/**
+ * Validate a value for an encrypted type and return it in the form the SDK expects.
+ * Throws a RangeError naming the field and the allowed range.
+ */
+export function validateEncryptedValue<T extends EncryptedType>({
+  type,
+  value,
+  label,
+}: EncryptedField<T>): boolean | bigint | string {
+  const name = label ?? type;
+
+  if (type === "ebool") {
+    if (typeof value !== "boolean") {
+      throw new TypeError(`${name} must be a boolean for ebool.`);
+    }
+    return value;
+  }
+
+  if (type === "eaddress") {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new TypeError(`${name} must be a valid address for eaddress.`);
+    }
+    return getAddress(value);
+  }
+
+  if (typeof value !== "number" && typeof value !== "bigint") {
+    throw new TypeError(`${name} must be a number or bigint for ${type}.`);
+  }
+
+  const amount = toBigInt(value, name);
+  const max = maxEncryptedUint(type as EncryptedUintType);
+  if (amount < 0n || amount > max) {
+    throw new RangeError(`${name} is out of range for ${type}: ${amount} is not within 0..${max}.`);
+  }
+  return amount;
+}
+
+/**
+ * Collects typed values into a single encrypted input sharing one proof.
+ * Handles are returned in the order the values were added.
+ *
+ * @example
+ * const { handles, proof } = await new EncryptedInputBuilder(contract, user)
+ *   .add("euint64", priceWei, "Price")
+ *   .add("euint32", slots, "Slots")
+ *   .encrypt();
+ */
+export class EncryptedInputBuilder {
+  private readonly fields: EncryptedField[] = [];
+
+  constructor(
+    private readonly contractAddress: string,
+    private readonly userAddress: string,
+  ) {}
+
+  /** Validates immediately so range errors surface before any SDK work */
+  add<T extends EncryptedType>(type: T, value: EncryptedValueOf<T>, label?: string): this {
+    const field = { type, value, label } as EncryptedField;
+    validateEncryptedValue(field);
+    this.fields.push(field);
+    return this;
+  }
+
+  addAll(fields: EncryptedField[]): this {
+    for (const { type, value, label } of fields) {
+      this.add(type, value, label);
+    }
+    return this;
+  }
+
+  get size() {
+    return this.fields.length;
+  }
+
+  async encrypt(): Promise<EncryptedInputs> {
+    if (!this.fields.length) {
+      throw new Error("No values added to the encrypted input.");
+    }
+
+    const fhe = await getFHEInstance();
+    // FHEVM 0.9: addresses must be checksummed
+    const input = fhe.createEncryptedInput(
+      getAddress(this.contractAddress),
+      getAddress(this.userAddress),
+    );
+
+    for (const field of this.fields) {
+      const value = validateEncryptedValue(field);
+      switch (field.type) {
+        case "ebool":
+          input.addBool(value as boolean);
+          break;
+        case "euint8":
+          input.add8(value as bigint);
+          break;
+        case "euint16":
+          input.add16(value as bigint);
+          break;
+        case "euint32":
+          input.add32(value as bigint);
+          break;
+        case "euint64":
+          input.add64(value as bigint);
+          break;
+        case "euint128":
+          input.add128(value as bigint);
+          break;
+        case "euint256":
+          input.add256(value as bigint);
+          break;
+        case "eaddress":
+          input.addAddress(value as string);
+          break;
+      }
+    }
+
+    const { handles, inputProof } = await input.encrypt();
+    return {
+      handles: handles.map((handle) => hexlify(handle)),
+      proof: hexlify(inputProof),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * FHEVM encrypted types and their value ranges
+ * Kept apart from fhe-inputs so error copy and form validation can state the limits
+ * without loading the relayer SDK.
+ */
+
+import { formatEther } from "ethers";
+
+export type EncryptedUintType =
+  | "euint8"
+  | "euint16"
+  | "euint32"
+  | "euint64"
+  | "euint128"
+  | "euint256";
+
+export type EncryptedType = "ebool" | EncryptedUintType | "eaddress";
+
+export const ENCRYPTED_UINT_BITS: Record<EncryptedUintType, number> = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+};
+
+export const maxEncryptedUint = (type: EncryptedUintType) =>
+  (1n << BigInt(ENCRYPTED_UINT_BITS[type])) - 1n;
+
+/** Largest wei amount an euint64 price can hold (2^64 - 1 wei) */
+export const MAX_EUINT64_WEI = maxEncryptedUint("euint64");
+
+/** MAX_EUINT64_WEI in ETH, for every message that states the price limit */
+export const formatMaxEncryptedPrice = () => `${formatEther(MAX_EUINT64_WEI)} ETH`;
@@ -6,54 +6,36 @@
 import {
   createInstance,
   initSDK,
-  type FheInstance,
+  type FhevmInstance,
   SepoliaConfig as SDKSepoliaConfig,
   type FhevmInstanceConfig,
 } from "@zama-fhe/relayer-sdk/web"; // must use /web for Vite projects
+import { getActiveNetwork, NETWORKS, type NetworkConfig } from "@/lib/networks";
 
-const env = import.meta?.env ?? {};
+type FheInstance = FhevmInstance;
 
-const overrides: Partial<FhevmInstanceConfig> = {};
-
-if (env.VITE_FHE_ACL_ADDRESS) {
-  overrides.aclContractAddress = env.VITE_FHE_ACL_ADDRESS;
-}
-if (env.VITE_FHE_KMS_ADDRESS) {
-  overrides.kmsContractAddress = env.VITE_FHE_KMS_ADDRESS;
-}
-if (env.VITE_FHE_INPUT_VERIFIER_ADDRESS) {
-  overrides.inputVerifierContractAddress = env.VITE_FHE_INPUT_VERIFIER_ADDRESS;
-}
-if (env.VITE_FHE_DECRYPTION_CONTRACT_ADDRESS) {
-  overrides.verifyingContractAddressDecryption = env.VITE_FHE_DECRYPTION_CONTRACT_ADDRESS;
-}
-if (env.VITE_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS) {
-  overrides.verifyingContractAddressInputVerification =
-    env.VITE_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS;
-}
-if (env.VITE_FHE_GATEWAY_CHAIN_ID) {
-  overrides.gatewayChainId = Number(env.VITE_FHE_GATEWAY_CHAIN_ID);
-}
-if (env.VITE_FHE_CHAIN_ID) {
-  overrides.chainId = Number(env.VITE_FHE_CHAIN_ID);
-}
-if (env.VITE_FHE_RELAYER_URL) {
-  overrides.relayerUrl = env.VITE_FHE_RELAYER_URL;
-}
-if (env.VITE_FHE_NETWORK_RPC) {
-  overrides.network = env.VITE_FHE_NETWORK_RPC;
+/**
+ * Build the FHEVM instance config for a network: SDK preset (if any),
+ * then the network's chain id, then per-network overrides.
+ */
+export function getFhevmConfig(network: NetworkConfig = getActiveNetwork()): FhevmInstanceConfig {
+  const preset = network.fhevm.preset === "sepolia" ? SDKSepoliaConfig : {};
+  return {
+    ...preset,
+    chainId: network.chainId,
+    ...network.fhevm.overrides,
+  } as FhevmInstanceConfig;
 }
 
-// Merge SDK defaults with optional overrides from environment variables
-export const SepoliaConfig: FhevmInstanceConfig = {
-  ...SDKSepoliaConfig,
-  ...overrides,
-};
+// SDK Sepolia defaults merged with the VITE_FHE_* overrides
+export const SepoliaConfig: FhevmInstanceConfig = getFhevmConfig(NETWORKS.sepolia);
 
 // Global instance management
 let fheInstance: FheInstance | null = null;
 let initPromise: Promise<FheInstance> | null = null;
 let isInitialized = false;
+// Bumped by resetFHE so an initialization started for a previous network is discarded
+let generation = 0;
 
 /**
  * Initialize FHE SDK (FHEVM 0.9)
@@ -75,6 +57,7 @@ export async function initializeFHE(): Promise<FheInstance> {
 
   console.log("[FHE] Starting initialization...");
 
+  const initGeneration = generation;
   initPromise = (async () => {
     try {
       // Step 1: Initialize WASM module (only once)
@@ -85,9 +68,15 @@ export async function initializeFHE(): Promise<FheInstance> {
         console.log("[FHE] WASM module loaded");
       }
 
-      // Step 2: Create FHE instance with Sepolia config
-      console.log("[FHE] Creating instance with Sepolia config...");
-      const instance = await createInstance(SepoliaConfig);
+      // Step 2: Create FHE instance for the active network
+      const network = getActiveNetwork();
+      console.log(`[FHE] Creating instance with ${network.name} config...`);
+      const instance = await createInstance(getFhevmConfig(network));
+
+      if (initGeneration !== generation) {
+        console.log("[FHE] Network changed during initialization, retrying");
+        return initializeFHE();
+      }
 
       fheInstance = instance;
       console.log("[FHE] Instance created successfully");
@@ -96,7 +85,7 @@ export async function initializeFHE(): Promise<FheInstance> {
     } catch (error) {
       console.error("[FHE] Initialization failed:", error);
       // Reset state on error
-      initPromise = null;
+      if (initGeneration === generation) initPromise = null;
       throw error;
     }
   })();
@@ -120,6 +109,7 @@ export function resetFHE(): void {
   console.log("[FHE] Resetting instance");
   fheInstance = null;
   initPromise = null;
+  generation++;
   // Note: isInitialized stays true as WASM is still loaded
 }
 
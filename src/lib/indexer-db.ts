@@ -0,0 +1,106 @@
+/**
+ * Minimal promise wrapper around IndexedDB for the marketplace event indexer
+ */
+
+const DB_VERSION = 1;
+
+export const INDEXER_STORES = {
+  offers: "offers",
+  purchases: "purchases",
+  reveals: "reveals",
+  meta: "meta",
+} as const;
+
+export type IndexerStoreName = (typeof INDEXER_STORES)[keyof typeof INDEXER_STORES];
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+export function openIndexerDb(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DB_VERSION);
+
+  request.onupgradeneeded = () => {
+    const db = request.result;
+
+    if (!db.objectStoreNames.contains(INDEXER_STORES.offers)) {
+      const offers = db.createObjectStore(INDEXER_STORES.offers, { keyPath: "key" });
+      offers.createIndex("creator", "creatorKey");
+    }
+    if (!db.objectStoreNames.contains(INDEXER_STORES.purchases)) {
+      const purchases = db.createObjectStore(INDEXER_STORES.purchases, { keyPath: "key" });
+      purchases.createIndex("buyer", "buyerKey");
+      purchases.createIndex("offer", "offerKey");
+    }
+    if (!db.objectStoreNames.contains(INDEXER_STORES.reveals)) {
+      const reveals = db.createObjectStore(INDEXER_STORES.reveals, { keyPath: "key" });
+      reveals.createIndex("offer", "offerKey");
+      reveals.createIndex("priceHandle", "priceHandle");
+    }
+    if (!db.objectStoreNames.contains(INDEXER_STORES.meta)) {
+      db.createObjectStore(INDEXER_STORES.meta, { keyPath: "key" });
+    }
+  };
+
+  return requestToPromise(request);
+}
+
+export async function getRecord<T>(
+  db: IDBDatabase,
+  store: IndexerStoreName,
+  key: IDBValidKey,
+): Promise<T | undefined> {
+  const transaction = db.transaction(store, "readonly");
+  return requestToPromise<T | undefined>(transaction.objectStore(store).get(key));
+}
+
+export async function getAllRecords<T>(
+  db: IDBDatabase,
+  store: IndexerStoreName,
+  index?: string,
+  query?: IDBValidKey | IDBKeyRange,
+): Promise<T[]> {
+  const transaction = db.transaction(store, "readonly");
+  const source = index
+    ? transaction.objectStore(store).index(index)
+    : transaction.objectStore(store);
+  return requestToPromise<T[]>(source.getAll(query));
+}
+
+/**
+ * Write records into several stores in a single transaction, so a batch of
+ * events and the block high-water mark are committed together or not at all.
+ */
+export async function putRecords(
+  db: IDBDatabase,
+  batches: Partial<Record<IndexerStoreName, object[]>>,
+): Promise<void> {
+  const stores = Object.keys(batches) as IndexerStoreName[];
+  if (!stores.length) return;
+
+  const transaction = db.transaction(stores, "readwrite");
+  stores.forEach((store) => {
+    const objectStore = transaction.objectStore(store);
+    batches[store]?.forEach((record) => objectStore.put(record));
+  });
+  await transactionDone(transaction);
+}
+
+export async function clearStores(db: IDBDatabase): Promise<void> {
+  const stores = Object.values(INDEXER_STORES);
+  const transaction = db.transaction(stores, "readwrite");
+  stores.forEach((store) => transaction.objectStore(store).clear());
+  await transactionDone(transaction);
+}
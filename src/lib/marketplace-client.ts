@@ -0,0 +1,370 @@
+/**
+ * Typed binding for TimeMarketplaceFHE
+ * Argument and return types are derived from the generated ABI in marketplace-abi.ts
+ */
+
+import { Contract, Interface, Result } from "ethers";
+import type {
+  BlockTag,
+  ContractRunner,
+  ContractTransactionResponse,
+  Log,
+  Overrides,
+  ParamType,
+} from "ethers";
+import { marketplaceAbi, type MarketplaceAbi } from "@/lib/marketplace-abi";
+import type { BatchReader } from "@/lib/multicall";
+import type {
+  AbiEventArgs,
+  AbiEventFilterArgs,
+  AbiEventName,
+  AbiFunctionArgs,
+  AbiFunctionName,
+  AbiFunctionResult,
+  AbiReadFunctionName,
+  AbiWriteFunctionName,
+} from "@/types/abi";
+
+export type MarketplaceFunctionName = AbiFunctionName<MarketplaceAbi>;
+export type MarketplaceReadFunctionName = AbiReadFunctionName<MarketplaceAbi>;
+export type MarketplaceWriteFunctionName = AbiWriteFunctionName<MarketplaceAbi>;
+export type MarketplaceEventName = AbiEventName<MarketplaceAbi>;
+
+export type MarketplaceFunctionArgs<N extends MarketplaceFunctionName> = AbiFunctionArgs<
+  MarketplaceAbi,
+  N
+>;
+export type MarketplaceFunctionResult<N extends MarketplaceFunctionName> = AbiFunctionResult<
+  MarketplaceAbi,
+  N
+>;
+export type MarketplaceEventArgs<N extends MarketplaceEventName> = AbiEventArgs<MarketplaceAbi, N>;
+export type MarketplaceEventFilter<N extends MarketplaceEventName> = AbiEventFilterArgs<
+  MarketplaceAbi,
+  N
+>;
+
+// Write calls accept an optional trailing overrides object (value, gasLimit, ...)
+export type MarketplaceWriteArgs<N extends MarketplaceWriteFunctionName> =
+  | MarketplaceFunctionArgs<N>
+  | [...MarketplaceFunctionArgs<N>, Overrides];
+
+export type MarketplaceEvent = {
+  [N in MarketplaceEventName]: { name: N; args: MarketplaceEventArgs<N>; log: Log };
+}[MarketplaceEventName];
+
+export type MarketplaceEventLog<N extends MarketplaceEventName> = Extract<
+  MarketplaceEvent,
+  { name: N }
+>;
+
+export const marketplaceInterface = new Interface(marketplaceAbi);
+
+// Blocks per eth_getLogs request; public RPC nodes reject wider ranges
+export const LOG_QUERY_CHUNK_SIZE = 5_000;
+
+const toPlainValue = (value: unknown) => (value instanceof Result ? value.toArray(true) : value);
+
+const normalizeResult = (outputs: readonly ParamType[], result: Result) => {
+  if (outputs.length === 0) return undefined;
+  if (outputs.length === 1) return toPlainValue(result[0]);
+  if (outputs.every((output) => output.name)) return result.toObject(true);
+  return result.toArray(true);
+};
+
+export type MarketplaceClientOptions = {
+  /** Used by readMany to aggregate calls; without one, calls are sent individually. */
+  batchReader?: BatchReader;
+};
+
+export class MarketplaceClient {
+  readonly address: string;
+  readonly contract: Contract;
+  private readonly batchReader?: BatchReader;
+
+  constructor(address: string, runner: ContractRunner, options: MarketplaceClientOptions = {}) {
+    this.address = address;
+    this.contract = new Contract(address, marketplaceAbi, runner);
+    this.batchReader = options.batchReader;
+  }
+
+  async read<N extends MarketplaceReadFunctionName>(
+    name: N,
+    ...args: MarketplaceFunctionArgs<N>
+  ): Promise<MarketplaceFunctionResult<N>> {
+    const fragment = marketplaceInterface.getFunction(name);
+    const result = await this.contract.getFunction(name).staticCallResult(...args);
+    return normalizeResult(fragment.outputs, result) as MarketplaceFunctionResult<N>;
+  }
+
+  /**
+   * Run a read function against the state at `blockTag`. Blocks older than the RPC
+   * node's pruning window need an archive node.
+   */
+  async readAt<N extends MarketplaceReadFunctionName>(
+    blockTag: BlockTag,
+    name: N,
+    ...args: MarketplaceFunctionArgs<N>
+  ): Promise<MarketplaceFunctionResult<N>> {
+    const fragment = marketplaceInterface.getFunction(name);
+    const result = await this.contract.getFunction(name).staticCallResult(...args, { blockTag });
+    return normalizeResult(fragment.outputs, result) as MarketplaceFunctionResult<N>;
+  }
+
+  /**
+   * Run the same read function for many argument lists, batched through the
+   * BatchReader when one is configured. Results keep the order of `argsList`.
+   */
+  async readMany<N extends MarketplaceReadFunctionName>(
+    name: N,
+    argsList: MarketplaceFunctionArgs<N>[],
+  ): Promise<MarketplaceFunctionResult<N>[]> {
+    if (!this.batchReader) {
+      return Promise.all(argsList.map((args) => this.read(name, ...args)));
+    }
+
+    const fragment = marketplaceInterface.getFunction(name);
+    const results = await this.batchReader.call(
+      argsList.map((args) => ({
+        target: this.address,
+        callData: marketplaceInterface.encodeFunctionData(fragment, args),
+      })),
+    );
+
+    return results.map(({ success, returnData }, index) => {
+      if (!success) {
+        throw new Error(`Batched ${name} call #${index} reverted`);
+      }
+      const decoded = marketplaceInterface.decodeFunctionResult(fragment, returnData);
+      return normalizeResult(fragment.outputs, decoded) as MarketplaceFunctionResult<N>;
+    });
+  }
+
+  write<N extends MarketplaceWriteFunctionName>(
+    name: N,
+    ...args: MarketplaceWriteArgs<N>
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.getFunction(name).send(...args);
+  }
+
+  /**
+   * Run a write function as an eth_call from the runner's account and return its
+   * decoded result without sending a transaction
+   */
+  async simulate<N extends MarketplaceWriteFunctionName>(
+    name: N,
+    ...args: MarketplaceWriteArgs<N>
+  ): Promise<MarketplaceFunctionResult<N>> {
+    const fragment = marketplaceInterface.getFunction(name);
+    const result = await this.contract.getFunction(name).staticCallResult(...args);
+    return normalizeResult(fragment.outputs, result) as MarketplaceFunctionResult<N>;
+  }
+
+  /**
+   * Estimate the gas a write function would use when sent from the runner's account
+   */
+  estimateGas<N extends MarketplaceWriteFunctionName>(
+    name: N,
+    ...args: MarketplaceWriteArgs<N>
+  ): Promise<bigint> {
+    return this.contract.getFunction(name).estimateGas(...args);
+  }
+
+  parseLog(log: Log): MarketplaceEvent | null {
+    if (log.address.toLowerCase() !== this.address.toLowerCase()) return null;
+    try {
+      const parsed = marketplaceInterface.parseLog(log);
+      if (!parsed) return null;
+      return { name: parsed.name, args: parsed.args.toObject(true), log } as MarketplaceEvent;
+    } catch {
+      return null;
+    }
+  }
+
+  encodeEventTopics<N extends MarketplaceEventName>(
+    name: N,
+    filter: MarketplaceEventFilter<N> = {},
+  ) {
+    const event = marketplaceInterface.getEvent(name);
+    const values = event.inputs
+      .filter((input) => input.indexed)
+      .map((input) => (filter as Record<string, unknown>)[input.name] ?? null);
+    return marketplaceInterface.encodeFilterTopics(event, values);
+  }
+
+  /**
+   * Logs of one event, fetched in ranges of `chunkSize` blocks because public RPC
+   * nodes cap the block range a single eth_getLogs may span
+   * @param toBlock - Defaults to the current head
+   */
+  async queryEvents<N extends MarketplaceEventName>(
+    name: N,
+    filter: MarketplaceEventFilter<N> = {},
+    fromBlock: number | bigint = 0,
+    toBlock?: number | bigint,
+    chunkSize = LOG_QUERY_CHUNK_SIZE,
+  ): Promise<MarketplaceEventLog<N>[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("MarketplaceClient runner has no provider for log queries");
+    }
+
+    const topics = this.encodeEventTopics(name, filter);
+    const lastBlock = toBlock === undefined ? await provider.getBlockNumber() : Number(toBlock);
+    const logs: Log[] = [];
+    for (let start = Number(fromBlock); start <= lastBlock; start += chunkSize) {
+      const chunk = await provider.getLogs({
+        address: this.address,
+        topics,
+        fromBlock: start,
+        toBlock: Math.min(start + chunkSize - 1, lastBlock),
+      });
+      logs.push(...chunk);
+    }
+
+    return logs
+      .map((log) => this.parseLog(log))
+      .filter((event): event is MarketplaceEventLog<N> => event?.name === name);
+  }
+
+  // ============ READ FUNCTIONS ============
+
+  activeOfferIds(...args: MarketplaceFunctionArgs<"activeOfferIds">) {
+    return this.read("activeOfferIds", ...args);
+  }
+
+  confidentialProtocolId() {
+    return this.read("confidentialProtocolId");
+  }
+
+  getActiveOfferIds() {
+    return this.read("getActiveOfferIds");
+  }
+
+  getContractStats() {
+    return this.read("getContractStats");
+  }
+
+  getEncryptedOfferData(...args: MarketplaceFunctionArgs<"getEncryptedOfferData">) {
+    return this.read("getEncryptedOfferData", ...args);
+  }
+
+  getPlatformFee() {
+    return this.read("getPlatformFee");
+  }
+
+  getTreasury() {
+    return this.read("getTreasury");
+  }
+
+  getUserOffers(...args: MarketplaceFunctionArgs<"getUserOffers">) {
+    return this.read("getUserOffers", ...args);
+  }
+
+  getUserPurchases(...args: MarketplaceFunctionArgs<"getUserPurchases">) {
+    return this.read("getUserPurchases", ...args);
+  }
+
+  nextOfferId() {
+    return this.read("nextOfferId");
+  }
+
+  nextPurchaseId() {
+    return this.read("nextPurchaseId");
+  }
+
+  offers(...args: MarketplaceFunctionArgs<"offers">) {
+    return this.read("offers", ...args);
+  }
+
+  owner() {
+    return this.read("owner");
+  }
+
+  platformFee() {
+    return this.read("platformFee");
+  }
+
+  purchases(...args: MarketplaceFunctionArgs<"purchases">) {
+    return this.read("purchases", ...args);
+  }
+
+  totalOffersCreated() {
+    return this.read("totalOffersCreated");
+  }
+
+  totalPurchases() {
+    return this.read("totalPurchases");
+  }
+
+  totalVolume() {
+    return this.read("totalVolume");
+  }
+
+  treasury() {
+    return this.read("treasury");
+  }
+
+  userOffers(...args: MarketplaceFunctionArgs<"userOffers">) {
+    return this.read("userOffers", ...args);
+  }
+
+  userPurchases(...args: MarketplaceFunctionArgs<"userPurchases">) {
+    return this.read("userPurchases", ...args);
+  }
+
+  // ============ WRITE FUNCTIONS ============
+
+  comparePrices(...args: MarketplaceWriteArgs<"comparePrices">) {
+    return this.write("comparePrices", ...args);
+  }
+
+  createOffer(...args: MarketplaceWriteArgs<"createOffer">) {
+    return this.write("createOffer", ...args);
+  }
+
+  createOfferWithFHE(...args: MarketplaceWriteArgs<"createOfferWithFHE">) {
+    return this.write("createOfferWithFHE", ...args);
+  }
+
+  deactivateOffer(...args: MarketplaceWriteArgs<"deactivateOffer">) {
+    return this.write("deactivateOffer", ...args);
+  }
+
+  emergencyWithdraw(...args: MarketplaceWriteArgs<"emergencyWithdraw">) {
+    return this.write("emergencyWithdraw", ...args);
+  }
+
+  purchaseOffer(...args: MarketplaceWriteArgs<"purchaseOffer">) {
+    return this.write("purchaseOffer", ...args);
+  }
+
+  renounceOwnership(...args: MarketplaceWriteArgs<"renounceOwnership">) {
+    return this.write("renounceOwnership", ...args);
+  }
+
+  requestOfferReveal(...args: MarketplaceWriteArgs<"requestOfferReveal">) {
+    return this.write("requestOfferReveal", ...args);
+  }
+
+  resolveOfferCallback(...args: MarketplaceWriteArgs<"resolveOfferCallback">) {
+    return this.write("resolveOfferCallback", ...args);
+  }
+
+  transferOwnership(...args: MarketplaceWriteArgs<"transferOwnership">) {
+    return this.write("transferOwnership", ...args);
+  }
+
+  updatePlatformFee(...args: MarketplaceWriteArgs<"updatePlatformFee">) {
+    return this.write("updatePlatformFee", ...args);
+  }
+
+  updateTreasury(...args: MarketplaceWriteArgs<"updateTreasury">) {
+    return this.write("updateTreasury", ...args);
+  }
+}
+
+// Fails to compile when the ABI gains a function that has no method above
+type MissingMethods = Exclude<MarketplaceFunctionName, keyof MarketplaceClient>;
+const coversAbi: [MissingMethods] extends [never] ? true : MissingMethods = true;
+void coversAbi;
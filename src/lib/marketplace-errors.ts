@@ -0,0 +1,469 @@
+/**
+ * Marketplace error decoding
+ * Wallet, RPC and contract failures arrive as ethers errors wrapping EIP-1193 and
+ * JSON-RPC errors, with the revert data several levels deep. decodeMarketplaceError
+ * walks that chain and classifies the failure: wallet rejections, require() reason
+ * strings, custom errors from the ABI (Ownable, ReentrancyGuard, FHEVM), panics and
+ * RPC/network errors, each with a user-facing message and a suggested action.
+ */
+
+import { AbiCoder, dataSlice } from "ethers";
+import { marketplaceInterface } from "@/lib/marketplace-client";
+import { formatMaxEncryptedPrice } from "@/lib/fhe-types";
+
+export type MarketplaceErrorCode =
+  /** Request rejected in the wallet (EIP-1193 4001) */
+  | "user-rejected"
+  /** require() failure in the marketplace contract */
+  | "contract-revert"
+  /** Caller lacks the owner or creator role */
+  | "unauthorized"
+  | "reentrancy"
+  /** KMS signatures on a decryption proof did not verify */
+  | "invalid-decryption-proof"
+  /** Solidity panic (assert, overflow, division by zero) */
+  | "panic"
+  | "insufficient-funds"
+  /** Nonce already used or replacement fee too low */
+  | "nonce-conflict"
+  | "transaction-cancelled"
+  | "transaction-replaced"
+  /** Left the mempool without being mined, with no replacement found for its nonce */
+  | "transaction-dropped"
+  /** The wallet is on, or cannot add, the wrong chain */
+  | "wrong-network"
+  /** RPC unreachable, timed out or rate limited */
+  | "network"
+  /** Any other JSON-RPC error */
+  | "rpc"
+  | "unknown";
+
+export class MarketplaceError extends Error {
+  readonly code: MarketplaceErrorCode;
+  /** What the user can do next, when there is something useful to suggest */
+  readonly action: string | null;
+  /** Revert reason string or custom error name from the contract */
+  readonly reason: string | null;
+  readonly cause: unknown;
+
+  constructor({
+    code,
+    message,
+    action = null,
+    reason = null,
+    cause,
+  }: {
+    code: MarketplaceErrorCode;
+    message: string;
+    action?: string | null;
+    reason?: string | null;
+    cause?: unknown;
+  }) {
+    super(message);
+    this.name = "MarketplaceError";
+    this.code = code;
+    this.action = action;
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+type ErrorCopy = { code: MarketplaceErrorCode; message: string; action: string | null };
+
+// Every require() message in TimeMarketplaceFHE
+const REVERT_REASONS: Record<string, ErrorCopy> = {
+  "Invalid treasury address": {
+    code: "contract-revert",
+    message: "The treasury address is invalid.",
+    action: "Enter a non-zero Ethereum address.",
+  },
+  "Title cannot be empty": {
+    code: "contract-revert",
+    message: "The offer title is empty.",
+    action: "Add a title and submit again.",
+  },
+  "Description cannot be empty": {
+    code: "contract-revert",
+    message: "The offer description is empty.",
+    action: "Add a description and submit again.",
+  },
+  "Price must be greater than 0": {
+    code: "contract-revert",
+    message: "The price must be greater than zero.",
+    action: "Enter a positive price.",
+  },
+  "Price exceeds uint64 range": {
+    code: "contract-revert",
+    message: "The price is too large to encrypt as a 64-bit value.",
+    action: `Lower the price to at most ${formatMaxEncryptedPrice()}.`,
+  },
+  "Duration must be greater than 0": {
+    code: "contract-revert",
+    message: "The duration must be at least one day.",
+    action: "Enter a duration of 1 day or more.",
+  },
+  "Slots must be greater than 0": {
+    code: "contract-revert",
+    message: "The offer needs at least one slot.",
+    action: "Enter 1 or more slots.",
+  },
+  "Invalid offer ID": {
+    code: "contract-revert",
+    message: "This offer does not exist on the contract.",
+    action: "Check the offer link or pick an offer from the marketplace.",
+  },
+  "Invalid offer ID 1": {
+    code: "contract-revert",
+    message: "The first offer does not exist on the contract.",
+    action: "Pick offers from the marketplace.",
+  },
+  "Invalid offer ID 2": {
+    code: "contract-revert",
+    message: "The second offer does not exist on the contract.",
+    action: "Pick offers from the marketplace.",
+  },
+  "Must purchase at least 1 slot": {
+    code: "contract-revert",
+    message: "You need to buy at least one slot.",
+    action: "Set the quantity to 1 or more.",
+  },
+  "Offer is not active": {
+    code: "contract-revert",
+    message: "This offer is no longer active.",
+    action: "Browse the marketplace for active offers.",
+  },
+  "Offers must be active": {
+    code: "contract-revert",
+    message: "Both offers must be active to compare prices.",
+    action: "Choose two active offers.",
+  },
+  "Offer already inactive": {
+    code: "contract-revert",
+    message: "This offer is already deactivated.",
+    action: "Refresh to see its current state.",
+  },
+  "Not enough slots available": {
+    code: "contract-revert",
+    message: "Not enough slots are left for that quantity.",
+    action: "Lower the quantity and try again.",
+  },
+  "Offer has expired": {
+    code: "contract-revert",
+    message: "This offer has expired and can no longer be purchased.",
+    action: "Browse the marketplace for active offers.",
+  },
+  "Cannot purchase your own offer": {
+    code: "contract-revert",
+    message: "You cannot purchase slots from your own offer.",
+    action: "Switch to a different account to buy.",
+  },
+  "Insufficient payment": {
+    code: "contract-revert",
+    message: "The payment sent did not cover the total price.",
+    action: "Refresh the offer; its price may have changed.",
+  },
+  "Fee transfer failed": {
+    code: "contract-revert",
+    message: "The platform fee could not be sent to the treasury.",
+    action: "The treasury contract rejected the payment; contact the marketplace owner.",
+  },
+  "Creator payment failed": {
+    code: "contract-revert",
+    message: "The payment could not be sent to the offer creator.",
+    action: "The creator's address rejected the payment; contact the creator.",
+  },
+  "Refund failed": {
+    code: "contract-revert",
+    message: "The overpayment refund could not be sent back to you.",
+    action: "Send the exact total price from an account that accepts ETH.",
+  },
+  "Not authorized": {
+    code: "unauthorized",
+    message: "Only the offer creator or the marketplace owner can do this.",
+    action: "Switch to the creator or owner account.",
+  },
+  "Fee cannot exceed 10%": {
+    code: "contract-revert",
+    message: "The platform fee cannot be higher than 10%.",
+    action: "Enter a fee between 0 and 10.",
+  },
+  "No funds to withdraw": {
+    code: "contract-revert",
+    message: "The contract holds no funds to withdraw.",
+    action: null,
+  },
+  "Withdrawal failed": {
+    code: "contract-revert",
+    message: "The withdrawal transfer to the owner failed.",
+    action: "Check that the owner address accepts ETH.",
+  },
+};
+
+// Custom errors declared in the marketplace ABI
+const CUSTOM_ERRORS: Record<string, ErrorCopy> = {
+  OwnableUnauthorizedAccount: {
+    code: "unauthorized",
+    message: "Only the marketplace owner can do this.",
+    action: "Switch to the owner account.",
+  },
+  OwnableInvalidOwner: {
+    code: "contract-revert",
+    message: "The new owner address is invalid.",
+    action: "Enter a non-zero Ethereum address.",
+  },
+  ReentrancyGuardReentrantCall: {
+    code: "reentrancy",
+    message: "The contract rejected a re-entrant call.",
+    action: "Try again once your previous transaction is confirmed.",
+  },
+  InvalidKMSSignatures: {
+    code: "invalid-decryption-proof",
+    message: "The decryption proof could not be verified.",
+    action: "Decrypt the values again to get a fresh proof.",
+  },
+  ZamaProtocolUnsupported: {
+    code: "wrong-network",
+    message: "FHE is not supported on this network.",
+    action: "Switch to Sepolia or a local FHEVM node.",
+  },
+};
+
+const FALLBACK_COPY: Record<MarketplaceErrorCode, Omit<ErrorCopy, "code">> = {
+  "user-rejected": {
+    message: "Transaction rejected in your wallet.",
+    action: null,
+  },
+  "contract-revert": {
+    message: "The contract rejected the transaction.",
+    action: "Refresh the page; the data it was based on may be out of date.",
+  },
+  unauthorized: {
+    message: "Your account is not allowed to do this.",
+    action: "Switch to an authorized account.",
+  },
+  reentrancy: CUSTOM_ERRORS.ReentrancyGuardReentrantCall,
+  "invalid-decryption-proof": CUSTOM_ERRORS.InvalidKMSSignatures,
+  panic: {
+    message: "The contract hit an internal error.",
+    action: "Check the values you entered and try again.",
+  },
+  "insufficient-funds": {
+    message: "Your wallet does not have enough ETH for this transaction and its gas.",
+    action: "Add funds to your wallet or lower the amount.",
+  },
+  "nonce-conflict": {
+    message: "Your wallet has a conflicting pending transaction.",
+    action: "Wait for pending transactions to confirm, or reset the account nonce in your wallet.",
+  },
+  "transaction-cancelled": {
+    message: "Transaction was cancelled in your wallet.",
+    action: null,
+  },
+  "transaction-replaced": {
+    message: "Transaction was replaced by another transaction from your wallet.",
+    action: "Check the activity panel, then submit again if needed.",
+  },
+  "transaction-dropped": {
+    message: "Transaction was dropped by the network without being mined.",
+    action: "Check your wallet's activity, then submit again if needed.",
+  },
+  "wrong-network": {
+    message: "Your wallet is on a different network.",
+    action: "Switch your wallet to the selected network.",
+  },
+  network: {
+    message: "The network could not be reached.",
+    action: "Check your connection and try again in a moment.",
+  },
+  rpc: {
+    message: "The RPC node returned an error.",
+    action: "Try again in a moment.",
+  },
+  unknown: {
+    message: "Something went wrong.",
+    action: "Try again.",
+  },
+};
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+type ErrorLike = {
+  code?: string | number;
+  reason?: string | null;
+  shortMessage?: string;
+  message?: string;
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  revert?: { name?: string; args?: unknown[] } | null;
+};
+
+/** The error and every error nested inside it, outermost first */
+function unwrap(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  const queue: unknown[] = [error];
+  while (queue.length && chain.length < 10) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || chain.includes(current as ErrorLike)) continue;
+    const item = current as ErrorLike;
+    chain.push(item);
+    queue.push(item.error, item.info?.error, item.data);
+  }
+  return chain;
+}
+
+const isHexData = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{8,}$/.test(value);
+
+/**
+ * Decode raw revert data: Error(string), Panic(uint256) or a custom error in the ABI
+ */
+function decodeRevertData(data: string): { reason: string; panic?: boolean } | null {
+  try {
+    const selector = dataSlice(data, 0, 4);
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4));
+      return { reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(data, 4));
+      return { reason: PANIC_REASONS[Number(code)] ?? `panic 0x${code.toString(16)}`, panic: true };
+    }
+    const parsed = marketplaceInterface.parseError(data);
+    return parsed ? { reason: parsed.name } : null;
+  } catch {
+    return null;
+  }
+}
+
+const REVERT_MESSAGE_PATTERNS = [
+  /reverted with reason string '([^']+)'/,
+  /execution reverted:\s*"?([^"\n]+?)"?\s*$/m,
+  /reverted with custom error '(\w+)\(/,
+];
+
+/** The contract's reason string or custom error name, from wherever it surfaced */
+function findRevertReason(chain: ErrorLike[]): { reason: string; panic?: boolean } | null {
+  for (const item of chain) {
+    if (item.revert?.name && item.revert.name !== "Error") return { reason: item.revert.name };
+    if (item.reason) return { reason: item.reason };
+    if (isHexData(item.data)) {
+      const decoded = decodeRevertData(item.data);
+      if (decoded) return decoded;
+    }
+  }
+  for (const item of chain) {
+    for (const text of [item.shortMessage, item.message]) {
+      for (const pattern of REVERT_MESSAGE_PATTERNS) {
+        const match = text?.match(pattern);
+        if (match) return { reason: match[1].trim() };
+      }
+    }
+  }
+  return null;
+}
+
+const fromCopy = (copy: ErrorCopy, details: { reason?: string | null; cause: unknown }) =>
+  new MarketplaceError({ ...copy, ...details });
+
+/**
+ * A MarketplaceError with the default message and action for `code`
+ */
+export const createMarketplaceError = (
+  code: MarketplaceErrorCode,
+  cause?: unknown,
+  overrides: { message?: string; reason?: string | null } = {},
+) => new MarketplaceError({ code, ...FALLBACK_COPY[code], ...overrides, cause });
+
+/**
+ * Map a contract revert reason (require message or custom error name) to its copy
+ */
+export function describeRevertReason(reason: string, cause?: unknown): MarketplaceError {
+  const copy =
+    REVERT_REASONS[reason] ??
+    CUSTOM_ERRORS[reason] ??
+    Object.entries(REVERT_REASONS).find(([known]) => reason.includes(known))?.[1];
+  if (copy) return fromCopy(copy, { reason, cause });
+  return createMarketplaceError("contract-revert", cause, {
+    message: `The contract rejected the transaction: ${reason}.`,
+    reason,
+  });
+}
+
+/**
+ * Classify any error thrown by a wallet, provider or contract call
+ */
+export function decodeMarketplaceError(error: unknown): MarketplaceError {
+  if (error instanceof MarketplaceError) return error;
+
+  const chain = unwrap(error);
+  const codes = chain.map((item) => item.code);
+  const text = chain
+    .flatMap((item) => [item.shortMessage, item.message])
+    .filter(Boolean)
+    .join(" ");
+
+  if (codes.includes(4001) || codes.includes("ACTION_REJECTED") || /user (rejected|denied)/i.test(text)) {
+    return createMarketplaceError("user-rejected", error);
+  }
+
+  const revert = findRevertReason(chain);
+  if (revert?.panic) {
+    return createMarketplaceError("panic", error, { reason: revert.reason });
+  }
+  if (revert) return describeRevertReason(revert.reason, error);
+
+  if (codes.includes("INSUFFICIENT_FUNDS") || /insufficient funds/i.test(text)) {
+    return createMarketplaceError("insufficient-funds", error);
+  }
+  if (
+    codes.includes("NONCE_EXPIRED") ||
+    codes.includes("REPLACEMENT_UNDERPRICED") ||
+    /nonce too low|replacement transaction underpriced/i.test(text)
+  ) {
+    return createMarketplaceError("nonce-conflict", error);
+  }
+  if (codes.includes(4902) || codes.includes(4901) || codes.includes("NETWORK_ERROR")) {
+    return createMarketplaceError("wrong-network", error);
+  }
+  if (
+    codes.includes("TIMEOUT") ||
+    codes.includes(4900) ||
+    codes.includes(429) ||
+    /failed to fetch|network error|timeout|rate limit|too many requests/i.test(text)
+  ) {
+    return createMarketplaceError("network", error);
+  }
+  if (codes.includes("CALL_EXCEPTION")) {
+    // Reverted without data: usually a failed require in a nested call or out of gas
+    return createMarketplaceError("contract-revert", error);
+  }
+
+  const rpcError = chain.find(
+    (item) => typeof item.code === "number" && item.code <= -32000 && item.code >= -32768,
+  );
+  if (rpcError) {
+    return createMarketplaceError("rpc", error, {
+      message: `The RPC node returned an error: ${rpcError.message ?? rpcError.code}.`,
+    });
+  }
+
+  const message = chain[0]?.shortMessage || chain[0]?.message;
+  return createMarketplaceError("unknown", error, message ? { message } : {});
+}
+
+/**
+ * Message and suggested action on one line, for toast descriptions
+ */
+export function formatMarketplaceError(error: unknown): string {
+  const decoded = decodeMarketplaceError(error);
+  return decoded.action ? `${decoded.message} ${decoded.action}` : decoded.message;
+}
@@ -0,0 +1,153 @@
+/**
+ * Batched eth_call transport
+ * Aggregates read calls into Multicall3 `aggregate3` calls, falling back to
+ * JSON-RPC batch requests on chains where Multicall3 is not deployed.
+ */
+
+import { Interface } from "ethers";
+import type { JsonRpcPayload, JsonRpcProvider } from "ethers";
+
+// Same address on every chain where Multicall3 is deployed (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const DEFAULT_CHUNK_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+const multicallInterface = new Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+export type BatchCall = {
+  target: string;
+  callData: string;
+};
+
+export type BatchCallResult = {
+  success: boolean;
+  returnData: string;
+};
+
+export type BatchReaderOptions = {
+  /** Calls per Multicall3 aggregate (or per JSON-RPC batch in fallback mode). */
+  chunkSize?: number;
+  /** Chunks in flight at the same time. */
+  concurrency?: number;
+  multicallAddress?: string;
+};
+
+export type BatchTransport = "multicall" | "json-rpc";
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker),
+  );
+  return results;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size),
+  );
+
+export class BatchReader {
+  private readonly provider: JsonRpcProvider;
+  private readonly chunkSize: number;
+  private readonly concurrency: number;
+  readonly multicallAddress: string;
+  private transportPromise: Promise<BatchTransport> | null = null;
+
+  constructor(provider: JsonRpcProvider, options: BatchReaderOptions = {}) {
+    this.provider = provider;
+    this.chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  }
+
+  /**
+   * Detect once whether Multicall3 has code on the connected chain
+   */
+  getTransport(): Promise<BatchTransport> {
+    if (!this.transportPromise) {
+      this.transportPromise = this.provider
+        .getCode(this.multicallAddress)
+        .then((code): BatchTransport => (code && code !== "0x" ? "multicall" : "json-rpc"))
+        .catch((error) => {
+          this.transportPromise = null;
+          throw error;
+        });
+    }
+    return this.transportPromise;
+  }
+
+  /**
+   * Execute read calls in chunks; results keep the order of `calls`.
+   * A reverted call yields `success: false` instead of failing the whole batch.
+   */
+  async call(calls: BatchCall[]): Promise<BatchCallResult[]> {
+    if (!calls.length) return [];
+
+    const transport = await this.getTransport();
+    const results = await mapWithConcurrency(
+      chunk(calls, this.chunkSize),
+      this.concurrency,
+      (batch) =>
+        transport === "multicall" ? this.callMulticall(batch) : this.callJsonRpcBatch(batch),
+    );
+    return results.flat();
+  }
+
+  /**
+   * Run calls in order inside one Multicall3 aggregate, so each call sees the state
+   * changes of the calls before it. Resolves null where Multicall3 is not deployed.
+   */
+  async callInSequence(calls: BatchCall[]): Promise<BatchCallResult[] | null> {
+    if ((await this.getTransport()) !== "multicall") return null;
+    return this.callMulticall(calls);
+  }
+
+  private async callMulticall(calls: BatchCall[]): Promise<BatchCallResult[]> {
+    const data = multicallInterface.encodeFunctionData("aggregate3", [
+      calls.map(({ target, callData }) => ({ target, allowFailure: true, callData })),
+    ]);
+    const raw = await this.provider.call({ to: this.multicallAddress, data });
+    const [returnData] = multicallInterface.decodeFunctionResult("aggregate3", raw);
+    return (returnData as Array<[boolean, string]>).map(([success, data]) => ({
+      success,
+      returnData: data,
+    }));
+  }
+
+  private async callJsonRpcBatch(calls: BatchCall[]): Promise<BatchCallResult[]> {
+    const payloads: JsonRpcPayload[] = calls.map(({ target, callData }, index) => ({
+      id: index,
+      jsonrpc: "2.0",
+      method: "eth_call",
+      params: [{ to: target, data: callData }, "latest"],
+    }));
+
+    const responses = await this.provider._send(payloads);
+    const byId = new Map(responses.map((response) => [response.id, response]));
+
+    return payloads.map(({ id }) => {
+      const response = byId.get(id);
+      if (!response || "error" in response || typeof response.result !== "string") {
+        return { success: false, returnData: "0x" };
+      }
+      return { success: true, returnData: response.result };
+    });
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Network registry
+ * Per-network RPC endpoints, marketplace deployment and FHEVM addresses,
+ * plus the active network selection shared by contract-client and fhe.
+ */
+
+import type { Eip1193Provider } from "ethers";
+import type { FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+
+export type NetworkKey = "sepolia" | "hardhat";
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  name: string;
+  chainId: number;
+  /** Primary RPC first; the rest are used as fallbacks for reads. */
+  rpcUrls: string[];
+  /** Optional WebSocket endpoint for live events; block polling is used without one. */
+  wsUrl: string | null;
+  /** Blocks a log must be buried under before live subscribers see it. */
+  confirmations: number;
+  explorerUrl: string | null;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  marketplaceAddress: string;
+  /** First block to scan for marketplace events (0n when unknown). */
+  deployBlock: bigint;
+  fhevm: {
+    /** Relayer SDK preset to start from before applying overrides. */
+    preset: "sepolia" | null;
+    overrides: Partial<FhevmInstanceConfig>;
+  };
+}
+
+const env = import.meta.env;
+
+const STORAGE_KEY = "time-marketplace:network";
+
+const parseUrls = (...values: Array<string | undefined>) =>
+  Array.from(
+    new Set(
+      values
+        .flatMap((value) => value?.split(",") ?? [])
+        .map((url) => url.trim())
+        .filter(Boolean),
+    ),
+  );
+
+const parseBlock = (value: string | undefined) => (value ? BigInt(value) : 0n);
+
+const parseCount = (value: string | undefined, fallback: number) =>
+  value && /^\d+$/.test(value) ? Number(value) : fallback;
+
+const sepoliaFhevmOverrides = (): Partial<FhevmInstanceConfig> => {
+  const overrides: Partial<FhevmInstanceConfig> = {};
+
+  if (env.VITE_FHE_ACL_ADDRESS) {
+    overrides.aclContractAddress = env.VITE_FHE_ACL_ADDRESS;
+  }
+  if (env.VITE_FHE_KMS_ADDRESS) {
+    overrides.kmsContractAddress = env.VITE_FHE_KMS_ADDRESS;
+  }
+  if (env.VITE_FHE_INPUT_VERIFIER_ADDRESS) {
+    overrides.inputVerifierContractAddress = env.VITE_FHE_INPUT_VERIFIER_ADDRESS;
+  }
+  if (env.VITE_FHE_DECRYPTION_CONTRACT_ADDRESS) {
+    overrides.verifyingContractAddressDecryption = env.VITE_FHE_DECRYPTION_CONTRACT_ADDRESS;
+  }
+  if (env.VITE_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS) {
+    overrides.verifyingContractAddressInputVerification =
+      env.VITE_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS;
+  }
+  if (env.VITE_FHE_GATEWAY_CHAIN_ID) {
+    overrides.gatewayChainId = Number(env.VITE_FHE_GATEWAY_CHAIN_ID);
+  }
+  if (env.VITE_FHE_CHAIN_ID) {
+    overrides.chainId = Number(env.VITE_FHE_CHAIN_ID);
+  }
+  if (env.VITE_FHE_RELAYER_URL) {
+    overrides.relayerUrl = env.VITE_FHE_RELAYER_URL;
+  }
+  if (env.VITE_FHE_NETWORK_RPC) {
+    overrides.network = env.VITE_FHE_NETWORK_RPC;
+  }
+
+  return overrides;
+};
+
+const LOCAL_RPC_URL = env.VITE_LOCAL_RPC_URL || "http://127.0.0.1:8545";
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  sepolia: {
+    key: "sepolia",
+    name: "Sepolia",
+    chainId: Number(env.VITE_SEPOLIA_CHAIN_ID || 11155111),
+    rpcUrls: parseUrls(
+      env.VITE_SEPOLIA_RPC_URL,
+      env.VITE_SEPOLIA_FALLBACK_RPC_URLS,
+      "https://ethereum-sepolia-rpc.publicnode.com",
+    ),
+    wsUrl: env.VITE_SEPOLIA_WS_URL || null,
+    confirmations: parseCount(env.VITE_SEPOLIA_CONFIRMATIONS, 2),
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    marketplaceAddress: env.VITE_CONTRACT_ADDRESS || "",
+    deployBlock: parseBlock(env.VITE_DEPLOY_BLOCK),
+    fhevm: { preset: "sepolia", overrides: sepoliaFhevmOverrides() },
+  },
+  hardhat: {
+    key: "hardhat",
+    name: "Hardhat (local)",
+    chainId: 31337,
+    rpcUrls: parseUrls(LOCAL_RPC_URL),
+    wsUrl: env.VITE_LOCAL_WS_URL || null,
+    // Hardhat automines one block per transaction and never reorgs
+    confirmations: parseCount(env.VITE_LOCAL_CONFIRMATIONS, 0),
+    explorerUrl: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    marketplaceAddress: env.VITE_LOCAL_CONTRACT_ADDRESS || "",
+    deployBlock: parseBlock(env.VITE_LOCAL_DEPLOY_BLOCK),
+    // ACL and InputVerifier match contracts/fhevmTemp; the rest are the FHEVM Hardhat mock defaults
+    fhevm: {
+      preset: null,
+      overrides: {
+        aclContractAddress:
+          env.VITE_LOCAL_FHE_ACL_ADDRESS || "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
+        inputVerifierContractAddress:
+          env.VITE_LOCAL_FHE_INPUT_VERIFIER_ADDRESS || "0x901F8942346f7AB3a01F6D7613119Bca447Bb030",
+        kmsContractAddress:
+          env.VITE_LOCAL_FHE_KMS_ADDRESS || "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+        verifyingContractAddressDecryption:
+          env.VITE_LOCAL_FHE_DECRYPTION_CONTRACT_ADDRESS ||
+          "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+        verifyingContractAddressInputVerification:
+          env.VITE_LOCAL_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS ||
+          "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+        gatewayChainId: Number(env.VITE_LOCAL_FHE_GATEWAY_CHAIN_ID || 55815),
+        chainId: 31337,
+        network: LOCAL_RPC_URL,
+        ...(env.VITE_LOCAL_FHE_RELAYER_URL ? { relayerUrl: env.VITE_LOCAL_FHE_RELAYER_URL } : {}),
+      },
+    },
+  },
+};
+
+const isNetworkKey = (value: string | null | undefined): value is NetworkKey =>
+  !!value && value in NETWORKS;
+
+const readStoredNetwork = (): NetworkKey | null => {
+  try {
+    const stored = typeof window !== "undefined" ? window.localStorage.getItem(STORAGE_KEY) : null;
+    return isNetworkKey(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeKey: NetworkKey =
+  readStoredNetwork() ?? (isNetworkKey(env.VITE_DEFAULT_NETWORK) ? env.VITE_DEFAULT_NETWORK : "sepolia");
+
+const listeners = new Set<(network: NetworkConfig) => void>();
+
+export const getActiveNetwork = (): NetworkConfig => NETWORKS[activeKey];
+
+export const getNetworkByChainId = (chainId: number | bigint | null | undefined) =>
+  chainId == null
+    ? undefined
+    : Object.values(NETWORKS).find((network) => network.chainId === Number(chainId));
+
+export function setActiveNetwork(key: NetworkKey): NetworkConfig {
+  if (key !== activeKey) {
+    activeKey = key;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, key);
+    } catch {
+      /* storage unavailable */
+    }
+    listeners.forEach((listener) => listener(NETWORKS[key]));
+  }
+  return NETWORKS[key];
+}
+
+export function subscribeToNetwork(listener: (network: NetworkConfig) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const getExplorerTxUrl = (txHash: string, network: NetworkConfig = getActiveNetwork()) =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+
+/**
+ * Ask the wallet to switch to `network`, adding the chain first when the wallet
+ * does not know it (EIP-3085 error code 4902).
+ */
+export async function requestWalletNetwork(ethereum: Eip1193Provider, network: NetworkConfig) {
+  const chainId = `0x${network.chainId.toString(16)}`;
+
+  try {
+    await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (error) {
+    const code = (error as { code?: number; error?: { code?: number } })?.error?.code ??
+      (error as { code?: number })?.code;
+    if (code !== 4902) throw error;
+
+    await ethereum.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId,
+          chainName: network.name,
+          rpcUrls: network.rpcUrls,
+          nativeCurrency: network.nativeCurrency,
+          blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+        },
+      ],
+    });
+  }
+}
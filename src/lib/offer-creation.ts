@@ -0,0 +1,228 @@
+/**
+ * Offer creation service shared by the standard and FHE creation forms
+ * One validation schema for the form values, then a single submit path that
+ * encrypts (when requested), sends the transaction and reads the new offer ID
+ * from the OfferCreated event.
+ */
+
+import { formatEther, parseEther, type BrowserProvider, type Overrides } from "ethers";
+import { z } from "zod";
+import {
+  getContractAddress,
+  getContractWithSigner,
+  parseOfferCreatedEvent,
+} from "@/lib/contract-client";
+import type { MarketplaceFunctionArgs } from "@/lib/marketplace-client";
+import { EncryptedInputBuilder } from "@/lib/fhe-inputs";
+import { formatMaxEncryptedPrice, MAX_EUINT64_WEI, maxEncryptedUint } from "@/lib/fhe-types";
+import { transactionManager } from "@/lib/transaction-manager";
+import {
+  feeOverrides,
+  preflightWrite,
+  type ConfirmTransaction,
+} from "@/lib/transaction-preflight";
+import type { CreateOfferFormData } from "@/types/contract";
+
+export type OfferCreationMode = "standard" | "encrypted";
+
+export type OfferCreationStage = "encrypting" | "reviewing" | "submitting" | "confirming";
+
+export type OfferDraft = {
+  title: string;
+  description: string;
+  priceWei: bigint;
+  durationDays: bigint;
+  slots: bigint;
+};
+
+export type CreateOfferResult = {
+  offerId: bigint;
+  txHash: string;
+  blockNumber: number;
+  mode: OfferCreationMode;
+};
+
+export const TITLE_MAX_LENGTH = 100;
+export const DESCRIPTION_MAX_LENGTH = 1000;
+
+// Duration and slots are stored as euint32 by both creation paths
+const MAX_UINT32 = maxEncryptedUint("euint32");
+
+const PRICE_PATTERN = /^\d+(\.\d{1,18})?$/;
+const WHOLE_NUMBER_PATTERN = /^\d+$/;
+
+// zod still runs refinements after a failed format check, so these never throw
+const toWei = (value: string) => (PRICE_PATTERN.test(value) ? parseEther(value) : null);
+const toWhole = (value: string) => (WHOLE_NUMBER_PATTERN.test(value) ? BigInt(value) : null);
+
+const wholeNumber = (field: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${field} is required.`)
+    .regex(WHOLE_NUMBER_PATTERN, `${field} must be a whole number.`)
+    .refine((value) => (toWhole(value) ?? 1n) >= 1n, `${field} must be at least 1.`)
+    .refine(
+      (value) => (toWhole(value) ?? 0n) <= MAX_UINT32,
+      `${field} must be at most ${MAX_UINT32}.`,
+    );
+
+/**
+ * Form schema shared by both creation forms. Values stay strings so they can be
+ * bound to inputs directly; toOfferDraft converts them to contract arguments.
+ */
+export const offerFormSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required.")
+    .max(TITLE_MAX_LENGTH, `Title must be at most ${TITLE_MAX_LENGTH} characters.`),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Description is required.")
+    .max(
+      DESCRIPTION_MAX_LENGTH,
+      `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters.`,
+    ),
+  price: z
+    .string()
+    .trim()
+    .min(1, "Price is required.")
+    .regex(PRICE_PATTERN, "Price must be an ETH amount with at most 18 decimals.")
+    .refine((value) => (toWei(value) ?? 1n) > 0n, "Price must be greater than zero.")
+    // Prices are stored as euint64 on-chain, by trivial encryption or by the client
+    .refine(
+      (value) => (toWei(value) ?? 0n) <= MAX_EUINT64_WEI,
+      `Price exceeds the maximum encrypted price of ${formatMaxEncryptedPrice()}.`,
+    ),
+  duration: wholeNumber("Duration"),
+  slots: wholeNumber("Slots"),
+});
+
+export const EMPTY_OFFER_FORM: CreateOfferFormData = {
+  title: "",
+  description: "",
+  price: "",
+  duration: "",
+  slots: "",
+};
+
+/**
+ * Convert validated form values into contract arguments
+ */
+export function toOfferDraft(values: CreateOfferFormData): OfferDraft {
+  return {
+    title: values.title.trim(),
+    description: values.description.trim(),
+    priceWei: parseEther(values.price.trim()),
+    durationDays: BigInt(values.duration.trim()),
+    slots: BigInt(values.slots.trim()),
+  };
+}
+
+/**
+ * Validate form values and convert them, throwing the first validation error
+ */
+export function parseOfferForm(values: CreateOfferFormData): OfferDraft {
+  const result = offerFormSchema.safeParse(values);
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? "Invalid offer details.");
+  }
+  return toOfferDraft(values);
+}
+
+/**
+ * Create an offer and wait for it to be mined
+ * @param provider - Wallet provider already on the active network
+ * @param account - Connected account; encrypted inputs are bound to it
+ * @param confirm - Reviews the simulated call before it is sent; without one it is sent directly
+ * @returns null when the user cancels at the confirmation step
+ */
+export async function submitOffer({
+  provider,
+  account,
+  draft,
+  mode,
+  onStage,
+  confirm,
+}: {
+  provider: BrowserProvider;
+  account: string;
+  draft: OfferDraft;
+  mode: OfferCreationMode;
+  onStage?: (stage: OfferCreationStage, txHash?: string) => void;
+  confirm?: ConfirmTransaction;
+}): Promise<CreateOfferResult | null> {
+  const contractAddress = getContractAddress();
+  if (!contractAddress) {
+    throw new Error("Contract address is not configured for the selected network.");
+  }
+
+  const { title, description, priceWei, durationDays, slots } = draft;
+  const contract = await getContractWithSigner(provider);
+
+  let args:
+    | { name: "createOffer"; values: MarketplaceFunctionArgs<"createOffer"> }
+    | { name: "createOfferWithFHE"; values: MarketplaceFunctionArgs<"createOfferWithFHE"> };
+  if (mode === "encrypted") {
+    onStage?.("encrypting");
+    const { handles, proof } = await new EncryptedInputBuilder(contractAddress, account)
+      .add("euint64", priceWei, "Price (wei)")
+      .add("euint32", durationDays, "Duration (days)")
+      .add("euint32", slots, "Slots")
+      .encrypt();
+    args = {
+      name: "createOfferWithFHE",
+      values: [
+        title,
+        description,
+        priceWei,
+        durationDays,
+        slots,
+        handles[0],
+        handles[1],
+        handles[2],
+        proof,
+      ],
+    };
+  } else {
+    args = { name: "createOffer", values: [title, description, priceWei, durationDays, slots] };
+  }
+
+  let overrides: Overrides = {};
+  if (confirm) {
+    onStage?.("reviewing");
+    const fee = await confirm({
+      title: mode === "encrypted" ? "Publish encrypted offer" : "Publish offer",
+      description: `Create "${title}" with ${slots} slot(s) at ${formatEther(priceWei)} ETH each.`,
+      preflight: () => preflightWrite(contract, args.name, ...args.values),
+    });
+    if (!fee) return null;
+    overrides = feeOverrides(fee);
+  }
+
+  onStage?.("submitting");
+  const tx =
+    args.name === "createOfferWithFHE"
+      ? await contract.createOfferWithFHE(...args.values, overrides)
+      : await contract.createOffer(...args.values, overrides);
+
+  onStage?.("confirming", tx.hash);
+  const { receipt } = await transactionManager.track(tx, {
+    kind: mode === "encrypted" ? "createOfferWithFHE" : "createOffer",
+    description: `Create offer "${title}"`,
+  });
+
+  const event = parseOfferCreatedEvent(receipt);
+  if (!event) {
+    throw new Error("Offer created, but the OfferCreated event was not found in the receipt.");
+  }
+
+  return {
+    offerId: event.offerId,
+    txHash: tx.hash,
+    blockNumber: receipt.blockNumber,
+    mode,
+  };
+}
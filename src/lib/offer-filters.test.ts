@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { parseEther } from "ethers";
+import type { Offer } from "@/types/contract";
+import {
+  applyOfferFilters,
+  DEFAULT_OFFER_FILTERS,
+  EXPIRING_SOON_SECONDS,
+  parseOfferFilters,
+  serializeOfferFilters,
+  type OfferFilters,
+} from "@/lib/offer-filters";
+
+const NOW = 1_700_000_000;
+const CREATOR = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+// Byte 21 is 0xff for handles computed on-chain, anything else for client inputs
+const COMPUTED_HANDLE = `0x${"00".repeat(21)}ff${"00".repeat(10)}`;
+const INPUT_HANDLE = `0x${"00".repeat(21)}01${"00".repeat(10)}`;
+
+const makeOffer = (id: number, overrides: Partial<Offer> = {}): Offer => ({
+  id: BigInt(id),
+  creator: CREATOR,
+  title: `Offer ${id}`,
+  description: "",
+  publicPrice: parseEther("1"),
+  duration: 7n,
+  slots: 10n,
+  availableSlots: 10n,
+  isActive: true,
+  createdAt: BigInt(NOW - 1_000),
+  expiresAt: BigInt(NOW + 30 * 86_400),
+  encryptedPrice: COMPUTED_HANDLE,
+  encryptedDuration: COMPUTED_HANDLE,
+  encryptedSlots: COMPUTED_HANDLE,
+  ...overrides,
+});
+
+const filter = (offers: Offer[], patch: Partial<OfferFilters>) =>
+  applyOfferFilters(offers, { ...DEFAULT_OFFER_FILTERS, ...patch }, NOW).map((offer) =>
+    Number(offer.id),
+  );
+
+describe("offer filter URL state", () => {
+  it("round-trips every filter through the query string", () => {
+    const filters: OfferFilters = {
+      q: "design",
+      minPrice: "0.5",
+      maxPrice: "2",
+      minDuration: "3",
+      maxDuration: "30",
+      minSlots: "2",
+      privacy: "encrypted",
+      creator: CREATOR,
+      expiringSoon: true,
+      sort: "price-desc",
+    };
+
+    const params = serializeOfferFilters(filters);
+
+    expect(params.get("minDays")).toBe("3");
+    expect(params.get("expiring")).toBe("1");
+    expect(parseOfferFilters(new URLSearchParams(params.toString()))).toEqual(filters);
+  });
+
+  it("writes nothing for the defaults", () => {
+    expect(serializeOfferFilters(DEFAULT_OFFER_FILTERS).toString()).toBe("");
+  });
+
+  it("falls back to defaults for unknown enum values", () => {
+    const filters = parseOfferFilters(new URLSearchParams("sort=cheapest&privacy=secret"));
+
+    expect(filters.sort).toBe("newest");
+    expect(filters.privacy).toBe("all");
+  });
+});
+
+describe("applyOfferFilters", () => {
+  const cheap = makeOffer(1, { publicPrice: parseEther("0.1") });
+  const mid = makeOffer(2, { publicPrice: parseEther("1") });
+  const pricey = makeOffer(3, { publicPrice: parseEther("5") });
+
+  it("keeps offers inside the price bounds", () => {
+    expect(filter([cheap, mid, pricey], { minPrice: "0.5", maxPrice: "2" })).toEqual([2]);
+  });
+
+  it("ignores malformed price bounds instead of matching nothing", () => {
+    expect(filter([cheap, mid, pricey], { minPrice: "abc", maxPrice: "1.2.3" })).toEqual([3, 2, 1]);
+    expect(filter([cheap, mid, pricey], { minPrice: "0.5", maxPrice: "1e18" })).toEqual([3, 2]);
+  });
+
+  it("ignores non-integer duration and slot bounds", () => {
+    expect(filter([cheap, mid], { minDuration: "2.5", minSlots: "lots" })).toEqual([2, 1]);
+  });
+
+  it("filters by privacy, creator and expiry", () => {
+    const encrypted = makeOffer(4, { encryptedPrice: INPUT_HANDLE });
+    const expiring = makeOffer(5, { expiresAt: BigInt(NOW + EXPIRING_SOON_SECONDS - 1) });
+    const other = makeOffer(6, { creator: "0x2222222222222222222222222222222222222222" });
+
+    expect(filter([mid, encrypted], { privacy: "encrypted" })).toEqual([4]);
+    expect(filter([mid, encrypted], { privacy: "public" })).toEqual([2]);
+    expect(filter([mid, other], { creator: `0x${CREATOR.slice(2).toUpperCase()}` })).toEqual([2]);
+    expect(filter([mid, expiring], { expiringSoon: true })).toEqual([5]);
+  });
+
+  it("breaks sort ties by newest, then by highest id", () => {
+    const older = makeOffer(1, { availableSlots: 5n, createdAt: BigInt(NOW - 5_000) });
+    const newer = makeOffer(2, { availableSlots: 5n, createdAt: BigInt(NOW - 10) });
+    const sameTime = makeOffer(3, { availableSlots: 5n, createdAt: BigInt(NOW - 10) });
+    const most = makeOffer(4, { availableSlots: 9n, createdAt: BigInt(NOW - 9_000) });
+    const offers = [older, newer, sameTime, most];
+
+    expect(filter(offers, { sort: "slots-desc" })).toEqual([4, 3, 2, 1]);
+    expect(filter(offers, { sort: "slots-asc" })).toEqual([3, 2, 1, 4]);
+    expect(filter(offers, { sort: "price-asc" })).toEqual([3, 2, 1, 4]);
+    expect(filter(offers, { sort: "newest" })).toEqual([3, 2, 1, 4]);
+  });
+});
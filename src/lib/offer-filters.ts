@@ -0,0 +1,170 @@
+/**
+ * Marketplace filters and sorting, serialized to and from the URL query string
+ * Only non-default values are written, so a plain /?sort=newest style URL stays short.
+ */
+
+import { isAddress, parseEther } from "ethers";
+import type { Offer } from "@/types/contract";
+import { isClientEncrypted, nowSeconds } from "@/lib/offers";
+
+export type OfferSort = "newest" | "price-asc" | "price-desc" | "slots-desc" | "slots-asc";
+
+export type OfferPrivacy = "all" | "encrypted" | "public";
+
+export type OfferFilters = {
+  q: string;
+  /** ETH amounts as typed */
+  minPrice: string;
+  maxPrice: string;
+  /** Days */
+  minDuration: string;
+  maxDuration: string;
+  /** Minimum available slots */
+  minSlots: string;
+  privacy: OfferPrivacy;
+  creator: string;
+  expiringSoon: boolean;
+  sort: OfferSort;
+};
+
+export const OFFER_SORT_LABELS: Record<OfferSort, string> = {
+  newest: "Newest",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  "slots-desc": "Most slots left",
+  "slots-asc": "Fewest slots left",
+};
+
+export const OFFER_PRIVACY_LABELS: Record<OfferPrivacy, string> = {
+  all: "All offers",
+  encrypted: "FHE encrypted",
+  public: "Public",
+};
+
+/** Offers expiring within this window match the expiring-soon filter */
+export const EXPIRING_SOON_SECONDS = 48 * 3_600;
+
+export const DEFAULT_OFFER_FILTERS: OfferFilters = {
+  q: "",
+  minPrice: "",
+  maxPrice: "",
+  minDuration: "",
+  maxDuration: "",
+  minSlots: "",
+  privacy: "all",
+  creator: "",
+  expiringSoon: false,
+  sort: "newest",
+};
+
+const QUERY_KEYS: Record<keyof OfferFilters, string> = {
+  q: "q",
+  minPrice: "minPrice",
+  maxPrice: "maxPrice",
+  minDuration: "minDays",
+  maxDuration: "maxDays",
+  minSlots: "minSlots",
+  privacy: "privacy",
+  creator: "creator",
+  expiringSoon: "expiring",
+  sort: "sort",
+};
+
+const pickEnum = <T extends string>(value: string | null, options: Record<T, string>, fallback: T) =>
+  value && value in options ? (value as T) : fallback;
+
+export function parseOfferFilters(params: URLSearchParams): OfferFilters {
+  const text = (key: keyof OfferFilters) => params.get(QUERY_KEYS[key]) ?? "";
+
+  return {
+    q: text("q"),
+    minPrice: text("minPrice"),
+    maxPrice: text("maxPrice"),
+    minDuration: text("minDuration"),
+    maxDuration: text("maxDuration"),
+    minSlots: text("minSlots"),
+    privacy: pickEnum(params.get(QUERY_KEYS.privacy), OFFER_PRIVACY_LABELS, "all"),
+    creator: text("creator"),
+    expiringSoon: params.get(QUERY_KEYS.expiringSoon) === "1",
+    sort: pickEnum(params.get(QUERY_KEYS.sort), OFFER_SORT_LABELS, "newest"),
+  };
+}
+
+export function serializeOfferFilters(filters: OfferFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(QUERY_KEYS) as (keyof OfferFilters)[]) {
+    const value = filters[key];
+    if (value === DEFAULT_OFFER_FILTERS[key]) continue;
+    if (typeof value === "boolean") {
+      params.set(QUERY_KEYS[key], "1");
+    } else if (value.trim()) {
+      params.set(QUERY_KEYS[key], value.trim());
+    }
+  }
+  return params;
+}
+
+export const countActiveFilters = (filters: OfferFilters) =>
+  (Object.keys(DEFAULT_OFFER_FILTERS) as (keyof OfferFilters)[]).filter(
+    (key) => key !== "q" && key !== "sort" && filters[key] !== DEFAULT_OFFER_FILTERS[key],
+  ).length;
+
+// Malformed bounds are ignored rather than matching nothing
+const toWei = (value: string) => {
+  try {
+    return value.trim() ? parseEther(value.trim()) : null;
+  } catch {
+    return null;
+  }
+};
+
+const toWhole = (value: string) => (/^\d+$/.test(value.trim()) ? BigInt(value.trim()) : null);
+
+/**
+ * Filter and sort offers. Text search is left to the caller.
+ */
+export function applyOfferFilters(
+  offers: Offer[],
+  filters: OfferFilters,
+  now: number = nowSeconds(),
+): Offer[] {
+  const minPrice = toWei(filters.minPrice);
+  const maxPrice = toWei(filters.maxPrice);
+  const minDuration = toWhole(filters.minDuration);
+  const maxDuration = toWhole(filters.maxDuration);
+  const minSlots = toWhole(filters.minSlots);
+  const creator = isAddress(filters.creator.trim()) ? filters.creator.trim().toLowerCase() : null;
+  const expiringBy = BigInt(now + EXPIRING_SOON_SECONDS);
+
+  const filtered = offers.filter((offer) => {
+    if (minPrice !== null && offer.publicPrice < minPrice) return false;
+    if (maxPrice !== null && offer.publicPrice > maxPrice) return false;
+    if (minDuration !== null && offer.duration < minDuration) return false;
+    if (maxDuration !== null && offer.duration > maxDuration) return false;
+    if (minSlots !== null && offer.availableSlots < minSlots) return false;
+    if (filters.privacy !== "all" && isClientEncrypted(offer) !== (filters.privacy === "encrypted")) {
+      return false;
+    }
+    if (creator && offer.creator.toLowerCase() !== creator) return false;
+    if (filters.expiringSoon && offer.expiresAt > expiringBy) return false;
+    return true;
+  });
+
+  const compare = (a: bigint, b: bigint) => (a === b ? 0 : a < b ? -1 : 1);
+  const byNewest = (a: Offer, b: Offer) => compare(b.createdAt, a.createdAt) || compare(b.id, a.id);
+
+  return filtered.sort((a, b) => {
+    switch (filters.sort) {
+      case "price-asc":
+        return compare(a.publicPrice, b.publicPrice) || byNewest(a, b);
+      case "price-desc":
+        return compare(b.publicPrice, a.publicPrice) || byNewest(a, b);
+      case "slots-desc":
+        return compare(b.availableSlots, a.availableSlots) || byNewest(a, b);
+      case "slots-asc":
+        return compare(a.availableSlots, b.availableSlots) || byNewest(a, b);
+      default:
+        return byNewest(a, b);
+    }
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Persisted progress of the public reveal flow
+ * requestOfferReveal -> TallyRevealRequested -> publicDecrypt -> resolveOfferCallback.
+ * Every stage transition is written to localStorage so a reload can resume the flow.
+ */
+
+export type RevealStage =
+  /** requestOfferReveal sent; waiting for it to be mined */
+  | "requesting"
+  /** TallyRevealRequested seen; handles are publicly decryptable */
+  | "requested"
+  /** Relayer returned cleartexts and the KMS proof */
+  | "decrypted"
+  /** resolveOfferCallback sent; waiting for it to be mined */
+  | "resolving"
+  | "resolved";
+
+export const REVEAL_STAGES: RevealStage[] = [
+  "requesting",
+  "requested",
+  "decrypted",
+  "resolving",
+  "resolved",
+];
+
+// bigint values are stored as decimal strings so the record survives JSON round-trips
+export type RevealProgress = {
+  offerId: string;
+  stage: RevealStage;
+  requestTxHash: string;
+  priceHandle?: string;
+  slotsHandle?: string;
+  cleartexts?: string;
+  decryptionProof?: string;
+  revealedPrice?: string;
+  revealedSlots?: string;
+  resolveTxHash?: string;
+  updatedAt: number;
+};
+
+const STORAGE_PREFIX = "time-marketplace:reveal";
+
+export const revealStorageKey = (chainId: number, contractAddress: string, offerId: bigint) =>
+  `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${offerId.toString()}`;
+
+export function loadRevealProgress(key: string): RevealProgress | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as RevealProgress) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveRevealProgress(key: string, progress: RevealProgress | null) {
+  try {
+    if (progress) {
+      window.localStorage.setItem(key, JSON.stringify(progress));
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+}
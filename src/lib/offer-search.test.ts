@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Offer } from "@/types/contract";
+import { editDistance, highlightMatches, OfferSearchIndex, tokenize } from "@/lib/offer-search";
+
+const makeOffer = (id: number, title: string, description = ""): Offer => ({
+  id: BigInt(id),
+  creator: "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd",
+  title,
+  description,
+  publicPrice: 1n,
+  duration: 1n,
+  slots: 1n,
+  availableSlots: 1n,
+  isActive: true,
+  createdAt: 0n,
+  expiresAt: 0n,
+  encryptedPrice: "0x",
+  encryptedDuration: "0x",
+  encryptedSlots: "0x",
+});
+
+const ids = (results: { offerId: bigint }[]) => results.map((result) => Number(result.offerId));
+
+describe("tokenize", () => {
+  it("lowercases and splits on anything but letters and digits", () => {
+    expect(tokenize("Logo-Design, 2 hours!")).toEqual(["logo", "design", "2", "hours"]);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts an adjacent transposition as one edit", () => {
+    expect(editDistance("desing", "design", 2)).toBe(1);
+  });
+
+  it("stops at max + 1 once the distance is exceeded", () => {
+    expect(editDistance("consulting", "tutoring", 2)).toBe(3);
+  });
+});
+
+describe("OfferSearchIndex", () => {
+  const index = new OfferSearchIndex();
+  index.sync([
+    makeOffer(1, "Logo design", "Vector logo in two days"),
+    makeOffer(2, "Rust mentoring", "Code review and pairing on design"),
+    makeOffer(3, "Portrait photography"),
+  ]);
+
+  it("matches exact terms, prefixes and typos", () => {
+    expect(ids(index.search("photography"))).toEqual([3]);
+    expect(ids(index.search("photo"))).toEqual([3]);
+    expect(ids(index.search("mentorign"))).toEqual([2]);
+  });
+
+  it("requires every query token to match", () => {
+    expect(ids(index.search("design review"))).toEqual([2]);
+    expect(index.search("design violin")).toEqual([]);
+  });
+
+  it("ranks title matches above description matches", () => {
+    expect(ids(index.search("design"))).toEqual([1, 2]);
+  });
+
+  it("drops offers missing from a later sync and re-indexes changed text", () => {
+    const local = new OfferSearchIndex();
+    local.sync([makeOffer(1, "Guitar lessons"), makeOffer(2, "Piano lessons")]);
+    local.sync([makeOffer(1, "Violin lessons")]);
+
+    expect(local.size).toBe(1);
+    expect(local.search("guitar")).toEqual([]);
+    expect(ids(local.search("violin"))).toEqual([1]);
+    expect(local.search("piano")).toEqual([]);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("marks matched tokens and keeps the text between them", () => {
+    expect(highlightMatches("Logo design, fast", ["design"])).toEqual([
+      { text: "Logo ", match: false },
+      { text: "design", match: true },
+      { text: ", fast", match: false },
+    ]);
+  });
+});
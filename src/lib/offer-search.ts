@@ -0,0 +1,246 @@
+/**
+ * Client-side inverted index over offers
+ * Tokens map to the offers and fields containing them. Query tokens match indexed
+ * terms exactly, by prefix, or within a small edit distance, and every query token
+ * must match for an offer to be returned. Offers are upserted incrementally: an offer
+ * is only re-tokenized when its searchable text changes.
+ */
+
+import type { Offer } from "@/types/contract";
+
+export type SearchField = "title" | "description" | "creator";
+
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  creator: 2,
+  description: 1,
+};
+
+export type OfferSearchResult = {
+  offerId: bigint;
+  score: number;
+  /** Indexed terms that matched, per field, for highlighting */
+  matches: Partial<Record<SearchField, string[]>>;
+};
+
+type MatchKind = "exact" | "prefix" | "fuzzy";
+
+const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.4,
+};
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+/** Allowed typos grow with the query token length */
+const maxTypos = (token: string) => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+/**
+ * Levenshtein distance with adjacent transpositions, abandoned once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+type IndexedDoc = {
+  signature: string;
+  terms: Map<string, Map<SearchField, number>>;
+};
+
+const docKey = (offerId: bigint) => offerId.toString();
+
+const searchableText = (offer: Offer): Record<SearchField, string> => ({
+  title: offer.title,
+  description: offer.description,
+  creator: offer.creator,
+});
+
+export class OfferSearchIndex {
+  private readonly docs = new Map<string, IndexedDoc>();
+  private readonly postings = new Map<string, Map<string, Map<SearchField, number>>>();
+  private sortedTerms: string[] | null = null;
+
+  get size() {
+    return this.docs.size;
+  }
+
+  /** Add or refresh an offer; unchanged offers are skipped */
+  upsert(offer: Offer): void {
+    const key = docKey(offer.id);
+    const text = searchableText(offer);
+    const signature = `${text.title}\u0000${text.description}\u0000${text.creator}`;
+    if (this.docs.get(key)?.signature === signature) return;
+
+    this.remove(offer.id);
+
+    const terms = new Map<string, Map<SearchField, number>>();
+    for (const field of Object.keys(text) as SearchField[]) {
+      for (const token of tokenize(text[field])) {
+        const fields = terms.get(token) ?? new Map<SearchField, number>();
+        fields.set(field, (fields.get(field) ?? 0) + 1);
+        terms.set(token, fields);
+      }
+    }
+
+    for (const [term, fields] of terms) {
+      const posting = this.postings.get(term) ?? new Map();
+      if (!this.postings.has(term)) {
+        this.postings.set(term, posting);
+        this.sortedTerms = null;
+      }
+      posting.set(key, fields);
+    }
+    this.docs.set(key, { signature, terms });
+  }
+
+  remove(offerId: bigint): void {
+    const key = docKey(offerId);
+    const doc = this.docs.get(key);
+    if (!doc) return;
+
+    for (const term of doc.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.docs.delete(key);
+  }
+
+  /** Upsert `offers` and drop offers no longer present */
+  sync(offers: Offer[]): void {
+    const keep = new Set(offers.map((offer) => docKey(offer.id)));
+    for (const key of [...this.docs.keys()]) {
+      if (!keep.has(key)) this.remove(BigInt(key));
+    }
+    offers.forEach((offer) => this.upsert(offer));
+  }
+
+  private getSortedTerms() {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+    return this.sortedTerms;
+  }
+
+  /** Indexed terms matching one query token, with how they matched */
+  private expand(token: string): Map<string, MatchKind> {
+    const matches = new Map<string, MatchKind>();
+    const terms = this.getSortedTerms();
+
+    // Binary search for the first term >= token; prefix matches follow contiguously
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < token) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < terms.length && terms[i].startsWith(token); i++) {
+      matches.set(terms[i], terms[i] === token ? "exact" : "prefix");
+    }
+
+    const typos = maxTypos(token);
+    if (typos > 0) {
+      for (const term of terms) {
+        if (!matches.has(term) && editDistance(token, term, typos) <= typos) {
+          matches.set(term, "fuzzy");
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  search(query: string): OfferSearchResult[] {
+    const tokens = [...new Set(tokenize(query))];
+    if (!tokens.length) return [];
+
+    let results: Map<string, OfferSearchResult> | null = null;
+
+    for (const token of tokens) {
+      const tokenResults = new Map<string, OfferSearchResult>();
+
+      for (const [term, kind] of this.expand(token)) {
+        for (const [key, fields] of this.postings.get(term) ?? []) {
+          const result = tokenResults.get(key) ?? { offerId: BigInt(key), score: 0, matches: {} };
+          for (const [field, count] of fields) {
+            result.score += SEARCH_FIELD_WEIGHTS[field] * MATCH_SCORES[kind] * (1 + Math.log(count));
+            result.matches[field] = [...(result.matches[field] ?? []), term];
+          }
+          tokenResults.set(key, result);
+        }
+      }
+
+      // Every query token has to match somewhere in the offer
+      if (results) {
+        const merged = new Map<string, OfferSearchResult>();
+        for (const [key, previous] of results) {
+          const next = tokenResults.get(key);
+          if (!next) continue;
+          const matches = { ...previous.matches };
+          for (const [field, terms] of Object.entries(next.matches) as [SearchField, string[]][]) {
+            matches[field] = [...(matches[field] ?? []), ...terms];
+          }
+          merged.set(key, { offerId: previous.offerId, score: previous.score + next.score, matches });
+        }
+        results = merged;
+      } else {
+        results = tokenResults;
+      }
+
+      if (!results.size) return [];
+    }
+
+    return [...results.values()].sort((a, b) => b.score - a.score);
+  }
+}
+
+export type HighlightSegment = { text: string; match: boolean };
+
+/**
+ * Split `text` into segments, marking tokens that are among the matched `terms`
+ */
+export function highlightMatches(text: string, terms: string[] | undefined): HighlightSegment[] {
+  if (!terms?.length) return [{ text, match: false }];
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    if (!wanted.has(match[0].toLowerCase())) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: match[0], match: true });
+    cursor = start + match[0].length;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
@@ -0,0 +1,85 @@
+/**
+ * Offer helpers shared by the marketplace pages
+ */
+
+import type { Offer } from "@/types/contract";
+
+export const hasEncryptedData = (offer: Offer) =>
+  !!offer.encryptedPrice && offer.encryptedPrice !== "0x" && offer.encryptedPrice !== "0x00";
+
+/**
+ * Whether the offer was created with client-side encrypted inputs (createOfferWithFHE).
+ * Every offer has ciphertext handles since createOffer trivially encrypts its plaintext
+ * values, but those are computed handles: byte 21 of a handle is the input index, and
+ * 0xff for handles produced on-chain.
+ */
+export const isClientEncrypted = (offer: Offer) => {
+  const handle = offer.encryptedPrice?.toLowerCase() ?? "";
+  if (handle.length !== 66) return false;
+  return handle.slice(2 + 21 * 2, 2 + 22 * 2) !== "ff";
+};
+
+export type OfferStatus = "active" | "sold-out" | "expired" | "deactivated" | "revealed";
+
+export type OfferStatusInfo = {
+  status: OfferStatus;
+  /** Mirrors purchaseOffer's checks: active, slots left and not past expiresAt */
+  isPurchasable: boolean;
+  /** Seconds until expiresAt; 0 once expired */
+  secondsLeft: number;
+};
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  active: "Active",
+  "sold-out": "Sold Out",
+  expired: "Expired",
+  deactivated: "Deactivated",
+  revealed: "Revealed",
+};
+
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Derive an offer's display status.
+ * The contract clears isActive on sell-out but never on expiry, so expiry is checked
+ * against the clock. "revealed" marks a purchasable offer whose encrypted terms were
+ * made publicly decryptable.
+ */
+export function deriveOfferStatus(
+  offer: Offer,
+  { now = nowSeconds(), revealed = false }: { now?: number; revealed?: boolean } = {},
+): OfferStatusInfo {
+  const secondsLeft = Math.max(Number(offer.expiresAt) - now, 0);
+
+  let status: OfferStatus;
+  if (offer.availableSlots === 0n) {
+    status = "sold-out";
+  } else if (!offer.isActive) {
+    status = "deactivated";
+  } else if (secondsLeft === 0) {
+    status = "expired";
+  } else {
+    status = revealed ? "revealed" : "active";
+  }
+
+  return {
+    status,
+    isPurchasable: status === "active" || status === "revealed",
+    secondsLeft,
+  };
+}
+
+/**
+ * Compact countdown, e.g. "3d 4h", "5h 12m", "8m 30s"
+ */
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "0s";
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  const secs = seconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${secs}s`;
+}
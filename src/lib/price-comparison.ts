@@ -0,0 +1,99 @@
+/**
+ * Cached results of confidential price comparisons (comparePrices)
+ * Encrypted prices never change after creation, so a decrypted result stays valid
+ * for the pair; entries are keyed by chain, contract and the unordered offer pair.
+ * Whether a deployment grants access to comparison results at all is cached per
+ * chain and contract.
+ */
+
+export type PriceComparison = {
+  /** Lower offer ID of the pair */
+  firstId: string;
+  secondId: string;
+  /** Decrypted comparePrices(first, second), i.e. FHE.gt(price(first), price(second)) */
+  firstIsHigher: boolean;
+  txHash: string;
+  comparedAt: number;
+};
+
+const STORAGE_PREFIX = "time-marketplace:compare";
+
+/**
+ * Offers are always compared as comparePrices(lower ID, higher ID): gt(a, b) says
+ * nothing about gt(b, a) when prices are equal, so the orientation must be fixed.
+ */
+export const orderOfferPair = (a: bigint, b: bigint): [bigint, bigint] =>
+  a < b ? [a, b] : [b, a];
+
+const storageKey = (chainId: number, contractAddress: string, a: bigint, b: bigint) => {
+  const [first, second] = orderOfferPair(a, b);
+  return `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${first}-${second}`;
+};
+
+export function loadPriceComparison(
+  chainId: number,
+  contractAddress: string,
+  a: bigint,
+  b: bigint,
+): PriceComparison | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey(chainId, contractAddress, a, b));
+    return raw ? (JSON.parse(raw) as PriceComparison) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function savePriceComparison(
+  chainId: number,
+  contractAddress: string,
+  comparison: PriceComparison,
+) {
+  try {
+    window.localStorage.setItem(
+      storageKey(
+        chainId,
+        contractAddress,
+        BigInt(comparison.firstId),
+        BigInt(comparison.secondId),
+      ),
+      JSON.stringify(comparison),
+    );
+  } catch {
+    /* storage unavailable */
+  }
+}
+
+const accessKey = (chainId: number, contractAddress: string) =>
+  `${STORAGE_PREFIX}-access:${chainId}:${contractAddress.toLowerCase()}`;
+
+const accessListeners = new Set<() => void>();
+
+/**
+ * Whether the deployment's comparePrices grants the caller access to the result,
+ * or null while it has not been checked
+ */
+export function loadComparisonAccess(chainId: number, contractAddress: string): boolean | null {
+  try {
+    const raw = window.localStorage.getItem(accessKey(chainId, contractAddress));
+    return raw === null ? null : raw === "true";
+  } catch {
+    return null;
+  }
+}
+
+export function saveComparisonAccess(chainId: number, contractAddress: string, granted: boolean) {
+  try {
+    window.localStorage.setItem(accessKey(chainId, contractAddress), String(granted));
+  } catch {
+    /* storage unavailable */
+  }
+  accessListeners.forEach((listener) => listener());
+}
+
+export function subscribeToComparisonAccess(listener: () => void) {
+  accessListeners.add(listener);
+  return () => {
+    accessListeners.delete(listener);
+  };
+}
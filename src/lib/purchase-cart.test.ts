@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Offer } from "@/types/contract";
+import { validateCartItem, type CartItem } from "@/lib/purchase-cart";
+
+// The module creates the shared cart on import, which listens for storage events
+vi.hoisted(() => {
+  vi.stubGlobal("window", new EventTarget());
+});
+vi.mock("@/lib/contract-client", () => ({}));
+vi.mock("@/lib/transaction-manager", () => ({ transactionManager: {} }));
+
+const NOW = 1_700_000_000;
+const CREATOR = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+const BUYER = "0x1234567890123456789012345678901234567890";
+
+const makeOffer = (overrides: Partial<Offer> = {}): Offer => ({
+  id: 7n,
+  creator: CREATOR,
+  title: "Logo design",
+  description: "",
+  publicPrice: 1_000n,
+  duration: 7n,
+  slots: 10n,
+  availableSlots: 4n,
+  isActive: true,
+  createdAt: BigInt(NOW - 1_000),
+  expiresAt: BigInt(NOW + 86_400),
+  encryptedPrice: "0x",
+  encryptedDuration: "0x",
+  encryptedSlots: "0x",
+  ...overrides,
+});
+
+const item: CartItem = {
+  chainId: 11155111,
+  contractAddress: "0x9a364753e3C111372011C2EE51aDC725C15D174E",
+  offerId: "7",
+  title: "Logo design",
+  unitPriceWei: "1000",
+  quantity: 2,
+  addedAt: NOW - 60,
+};
+
+const problemFor = (offer: Offer | null, overrides: Partial<CartItem> = {}) =>
+  validateCartItem({ ...item, ...overrides }, offer, { account: BUYER, now: NOW }).problem;
+
+describe("validateCartItem", () => {
+  it("accepts an active offer with enough slots", () => {
+    expect(validateCartItem(item, makeOffer(), { account: BUYER, now: NOW })).toEqual({
+      item,
+      offer: makeOffer(),
+      problem: null,
+      priceChanged: false,
+    });
+  });
+
+  it("classifies offers that can no longer be purchased", () => {
+    expect(problemFor(null)).toBe("not-found");
+    expect(problemFor(makeOffer({ availableSlots: 0n, isActive: false }))).toBe("sold-out");
+    expect(problemFor(makeOffer({ isActive: false }))).toBe("deactivated");
+    expect(problemFor(makeOffer({ expiresAt: BigInt(NOW) }))).toBe("expired");
+    expect(problemFor(makeOffer(), { quantity: 5 })).toBe("insufficient-slots");
+  });
+
+  it("flags the buyer's own offers regardless of address case", () => {
+    expect(
+      validateCartItem(item, makeOffer(), { account: CREATOR.toUpperCase(), now: NOW }).problem,
+    ).toBe("own-offer");
+  });
+
+  it("reports a changed price separately from purchase problems", () => {
+    const repriced = validateCartItem(item, makeOffer({ publicPrice: 1_500n }), {
+      account: BUYER,
+      now: NOW,
+    });
+
+    expect(repriced.problem).toBeNull();
+    expect(repriced.priceChanged).toBe(true);
+    expect(validateCartItem(item, null, { now: NOW }).priceChanged).toBe(false);
+  });
+});
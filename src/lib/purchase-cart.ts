@@ -0,0 +1,256 @@
+/**
+ * Purchase cart
+ * Offers and quantities the buyer intends to purchase, persisted in localStorage and
+ * scoped to the network and contract they were added on. Before checkout every item is
+ * revalidated against a fresh read of its offer; checkout then sends one purchaseOffer
+ * per item, in order, reporting progress and failures per item.
+ */
+
+import type { BrowserProvider } from "ethers";
+import type { Offer } from "@/types/contract";
+import { getContractWithSigner } from "@/lib/contract-client";
+import { decodeMarketplaceError, type MarketplaceError } from "@/lib/marketplace-errors";
+import { deriveOfferStatus, nowSeconds } from "@/lib/offers";
+import { transactionManager } from "@/lib/transaction-manager";
+
+// bigint values are stored as decimal strings so items survive JSON round-trips
+export type CartItem = {
+  chainId: number;
+  contractAddress: string;
+  offerId: string;
+  title: string;
+  /** Price per slot when the item was added or last revalidated */
+  unitPriceWei: string;
+  quantity: number;
+  addedAt: number;
+};
+
+export type CartProblem =
+  "not-found" | "sold-out" | "deactivated" | "expired" | "insufficient-slots" | "own-offer";
+
+export const CART_PROBLEM_LABELS: Record<CartProblem, string> = {
+  "not-found": "Offer no longer exists",
+  "sold-out": "Sold out",
+  deactivated: "Deactivated by the creator",
+  expired: "Offer has expired",
+  "insufficient-slots": "Not enough slots left",
+  "own-offer": "You created this offer",
+};
+
+export type CartItemValidation = {
+  item: CartItem;
+  offer: Offer | null;
+  /** Set when the item cannot be purchased as it stands */
+  problem: CartProblem | null;
+  /** The on-chain price differs from the one in the cart */
+  priceChanged: boolean;
+};
+
+export type CheckoutItemStatus =
+  | "queued"
+  | "simulating"
+  | "awaiting-signature"
+  | "confirming"
+  | "purchased"
+  | "failed"
+  /** Not attempted because an earlier item was rejected in the wallet */
+  | "skipped";
+
+export const CHECKOUT_STATUS_LABELS: Record<CheckoutItemStatus, string> = {
+  queued: "Queued",
+  simulating: "Checking",
+  "awaiting-signature": "Confirm in wallet",
+  confirming: "Confirming",
+  purchased: "Purchased",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+export type CheckoutItemProgress = {
+  status: CheckoutItemStatus;
+  txHash?: string;
+  error?: MarketplaceError;
+};
+
+export const CART_STORAGE_KEY = "time-marketplace:cart";
+
+export const cartItemKey = (item: Pick<CartItem, "chainId" | "contractAddress" | "offerId">) =>
+  `${item.chainId}:${item.contractAddress.toLowerCase()}:${item.offerId}`;
+
+const loadCart = (): CartItem[] => {
+  try {
+    const raw = window.localStorage.getItem(CART_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as CartItem[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCart = (items: CartItem[]) => {
+  try {
+    window.localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    /* storage unavailable */
+  }
+};
+
+/**
+ * Check a cart item against a fresh read of its offer
+ * @param account - Connected buyer; creators cannot purchase their own offers
+ */
+export function validateCartItem(
+  item: CartItem,
+  offer: Offer | null,
+  { account, now = nowSeconds() }: { account?: string | null; now?: number } = {},
+): CartItemValidation {
+  const priceChanged = !!offer && offer.publicPrice.toString() !== item.unitPriceWei;
+  const result = (problem: CartProblem | null) => ({ item, offer, problem, priceChanged });
+
+  if (!offer) return result("not-found");
+  if (account && offer.creator.toLowerCase() === account.toLowerCase()) {
+    return result("own-offer");
+  }
+
+  const { status } = deriveOfferStatus(offer, { now });
+  if (status === "sold-out" || status === "deactivated" || status === "expired") {
+    return result(status);
+  }
+  if (BigInt(item.quantity) > offer.availableSlots) return result("insufficient-slots");
+  return result(null);
+}
+
+export class PurchaseCart {
+  private items: CartItem[] = loadCart();
+  private readonly listeners = new Set<(items: CartItem[]) => void>();
+
+  constructor() {
+    // Keep carts open in several tabs in step
+    window.addEventListener("storage", (event) => {
+      if (event.key !== CART_STORAGE_KEY) return;
+      this.items = loadCart();
+      this.listeners.forEach((listener) => listener(this.items));
+    });
+  }
+
+  /** Every item, on every network, oldest first */
+  getItems(): CartItem[] {
+    return this.items;
+  }
+
+  subscribe(listener: (items: CartItem[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Add an offer, or raise the quantity when it is already in the cart */
+  add(
+    offer: Offer,
+    quantity: number,
+    { chainId, contractAddress }: Pick<CartItem, "chainId" | "contractAddress">,
+  ) {
+    const key = cartItemKey({ chainId, contractAddress, offerId: offer.id.toString() });
+    const existing = this.items.find((item) => cartItemKey(item) === key);
+    const next: CartItem = {
+      chainId,
+      contractAddress,
+      offerId: offer.id.toString(),
+      title: offer.title,
+      unitPriceWei: offer.publicPrice.toString(),
+      quantity: (existing?.quantity ?? 0) + quantity,
+      addedAt: existing?.addedAt ?? Date.now(),
+    };
+    this.setItems(
+      existing
+        ? this.items.map((item) => (cartItemKey(item) === key ? next : item))
+        : [...this.items, next],
+    );
+  }
+
+  /** Replace fields of one item, e.g. its quantity or a revalidated price */
+  update(key: string, patch: Partial<Pick<CartItem, "quantity" | "unitPriceWei" | "title">>) {
+    this.setItems(
+      this.items.map((item) => (cartItemKey(item) === key ? { ...item, ...patch } : item)),
+    );
+  }
+
+  remove(keys: string[]) {
+    const removed = new Set(keys);
+    this.setItems(this.items.filter((item) => !removed.has(cartItemKey(item))));
+  }
+
+  private setItems(items: CartItem[]) {
+    this.items = items;
+    saveCart(items);
+    this.listeners.forEach((listener) => listener(items));
+  }
+}
+
+export const purchaseCart = new PurchaseCart();
+
+/**
+ * Purchase the items one after another, each simulated before it is sent so an item
+ * that would revert fails without a wallet prompt. A failure moves on to the next
+ * item; a rejection in the wallet stops checkout and skips the rest. Purchased items
+ * are removed from the cart.
+ * @param onProgress - Called whenever an item's status changes
+ * @returns Progress of every item, keyed by cartItemKey
+ */
+export async function checkoutCart({
+  provider,
+  items,
+  onProgress,
+}: {
+  provider: BrowserProvider;
+  items: CartItem[];
+  onProgress?: (key: string, progress: CheckoutItemProgress) => void;
+}): Promise<Map<string, CheckoutItemProgress>> {
+  const results = new Map<string, CheckoutItemProgress>();
+  const report = (key: string, progress: CheckoutItemProgress) => {
+    results.set(key, progress);
+    onProgress?.(key, progress);
+  };
+  items.forEach((item) => report(cartItemKey(item), { status: "queued" }));
+
+  const contract = await getContractWithSigner(provider);
+  let stopped = false;
+
+  for (const item of items) {
+    const key = cartItemKey(item);
+    if (stopped) {
+      report(key, { status: "skipped" });
+      continue;
+    }
+
+    const offerId = BigInt(item.offerId);
+    const slots = BigInt(item.quantity);
+    const value = BigInt(item.unitPriceWei) * slots;
+    let txHash: string | undefined;
+    try {
+      report(key, { status: "simulating" });
+      await contract.simulate("purchaseOffer", offerId, slots, { value });
+
+      report(key, { status: "awaiting-signature" });
+      const tx = await contract.purchaseOffer(offerId, slots, { value });
+      txHash = tx.hash;
+
+      report(key, { status: "confirming", txHash });
+      await transactionManager.track(tx, {
+        kind: "purchaseOffer",
+        description: `Buy ${item.quantity} slot(s) of offer #${item.offerId}`,
+      });
+
+      report(key, { status: "purchased", txHash });
+      purchaseCart.remove([key]);
+    } catch (error) {
+      const decoded = decodeMarketplaceError(error);
+      console.warn(`[Cart] Purchase of offer #${item.offerId} failed:`, error);
+      report(key, { status: "failed", txHash, error: decoded });
+      stopped = decoded.code === "user-rejected";
+    }
+  }
+
+  return results;
+}
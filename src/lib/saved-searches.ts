@@ -0,0 +1,106 @@
+/**
+ * Saved marketplace searches
+ * Each entry is a serialized filter query string, so applying one is a navigation to
+ * `/?<query>`. New offers arriving over the live event stream are matched against them.
+ */
+
+import type { Offer } from "@/types/contract";
+import {
+  applyOfferFilters,
+  countActiveFilters,
+  OFFER_PRIVACY_LABELS,
+  parseOfferFilters,
+  serializeOfferFilters,
+  type OfferFilters,
+} from "@/lib/offer-filters";
+import { OfferSearchIndex } from "@/lib/offer-search";
+import { deriveOfferStatus, nowSeconds } from "@/lib/offers";
+
+export type SavedSearch = {
+  id: string;
+  name: string;
+  /** serializeOfferFilters output, without sort or page */
+  query: string;
+  createdAt: number;
+};
+
+export const SAVED_SEARCHES_STORAGE_KEY = "time-marketplace:saved-searches";
+
+export const MAX_SAVED_SEARCHES = 10;
+
+export function loadSavedSearches(): SavedSearch[] {
+  try {
+    const raw = window.localStorage.getItem(SAVED_SEARCHES_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as SavedSearch[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedSearches(searches: SavedSearch[]) {
+  try {
+    window.localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify(searches));
+  } catch {
+    /* storage unavailable */
+  }
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Readable summary of a filter set, e.g. `"design" · 0.1–0.5 ETH · FHE encrypted`
+ */
+export function describeOfferFilters(filters: OfferFilters): string {
+  const range = (min: string, max: string, unit: string) => {
+    if (min && max) return `${min}–${max} ${unit}`;
+    if (min) return `≥ ${min} ${unit}`;
+    if (max) return `≤ ${max} ${unit}`;
+    return null;
+  };
+
+  const parts = [
+    filters.q.trim() && `"${filters.q.trim()}"`,
+    range(filters.minPrice.trim(), filters.maxPrice.trim(), "ETH"),
+    range(filters.minDuration.trim(), filters.maxDuration.trim(), "days"),
+    filters.minSlots.trim() && `${filters.minSlots.trim()}+ slots`,
+    filters.privacy !== "all" && OFFER_PRIVACY_LABELS[filters.privacy],
+    filters.creator.trim() && `by ${shortAddress(filters.creator.trim())}`,
+    filters.expiringSoon && "expiring soon",
+  ].filter(Boolean);
+
+  return parts.length ? parts.join(" · ") : "All offers";
+}
+
+/** Whether the filters narrow anything down; saving "all offers" would alert on everything */
+export const isSavableSearch = (filters: OfferFilters) =>
+  !!filters.q.trim() || countActiveFilters(filters) > 0;
+
+export function createSavedSearch(filters: OfferFilters): SavedSearch {
+  const query = serializeOfferFilters({ ...filters, sort: "newest" }).toString();
+  return {
+    id: crypto.randomUUID(),
+    name: describeOfferFilters(filters),
+    query,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Whether a purchasable offer passes a saved search's filters and text query
+ */
+export function offerMatchesSearch(
+  offer: Offer,
+  search: SavedSearch,
+  now: number = nowSeconds(),
+): boolean {
+  if (!deriveOfferStatus(offer, { now }).isPurchasable) return false;
+
+  const filters = parseOfferFilters(new URLSearchParams(search.query));
+  if (!applyOfferFilters([offer], filters, now).length) return false;
+  if (!filters.q.trim()) return true;
+
+  const index = new OfferSearchIndex();
+  index.upsert(offer);
+  return index.search(filters.q).length > 0;
+}
@@ -0,0 +1,452 @@
+/**
+ * Transaction manager
+ * Marketplace writes are recorded in localStorage as soon as they are sent, so waiting
+ * resumes after a reload. Pending transactions are watched on the read-only provider:
+ * a receipt settles them, while a consumed nonce without a receipt means the wallet
+ * replaced them, and the replacement is looked up to tell a speed-up from a
+ * cancellation. A transaction the node no longer knows, whose nonce stays unused or
+ * went to a replacement that cannot be found, is given up on as dropped. Reverted
+ * receipts are replayed with eth_call to recover the reason.
+ */
+
+import type { Provider, TransactionReceipt, TransactionResponse } from "ethers";
+import { getReadOnlyProvider } from "@/lib/contract-client";
+import {
+  createMarketplaceError,
+  decodeMarketplaceError,
+  describeRevertReason,
+  MarketplaceError,
+} from "@/lib/marketplace-errors";
+import { getActiveNetwork } from "@/lib/networks";
+
+export type TrackedTxKind =
+  | "createOffer"
+  | "createOfferWithFHE"
+  | "purchaseOffer"
+  | "deactivateOffer"
+  | "comparePrices"
+  | "requestOfferReveal"
+  | "resolveOfferCallback"
+  | "updatePlatformFee"
+  | "updateTreasury"
+  | "emergencyWithdraw";
+
+export type TrackedTxStatus =
+  | "pending"
+  /** Mined successfully, possibly under a sped-up replacement (`replacedBy`) */
+  | "confirmed"
+  /** Mined with status 0; `revertReason` holds the decoded reason */
+  | "reverted"
+  /** The nonce went to a zero-value transfer to self */
+  | "cancelled"
+  /** The nonce went to a different call */
+  | "replaced"
+  /**
+   * Never mined: gone from the node with its nonce still unused, or its nonce taken by a
+   * transaction outside the scanned blocks
+   */
+  | "dropped";
+
+// bigint values are stored as decimal strings so the record survives JSON round-trips
+export type TrackedTransaction = {
+  hash: string;
+  kind: TrackedTxKind;
+  description: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  /** Chain head when the transaction was sent; replacements are searched from here */
+  startBlock: number;
+  status: TrackedTxStatus;
+  submittedAt: number;
+  updatedAt: number;
+  blockNumber?: number;
+  /** Hash of the transaction that took this one's nonce */
+  replacedBy?: string;
+  revertReason?: string;
+};
+
+export type TrackedTransactionResult = {
+  transaction: TrackedTransaction;
+  /** Receipt of the transaction that was mined, the replacement for a speed-up */
+  receipt: TransactionReceipt;
+};
+
+export const TRACKED_TX_STATUS_LABELS: Record<TrackedTxStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  reverted: "Reverted",
+  cancelled: "Cancelled",
+  replaced: "Replaced",
+  dropped: "Dropped",
+};
+
+const STORAGE_KEY = "time-marketplace:transactions";
+const MAX_STORED_TRANSACTIONS = 50;
+const POLL_INTERVAL_MS = 4_000;
+// How far back from the head to look for the transaction that reused a nonce
+const MAX_REPLACEMENT_SCAN_BLOCKS = 100;
+// A transaction missing from the node's mempool this long after it was sent is dropped;
+// the grace period covers RPCs that have not seen a just-broadcast transaction yet
+const DROP_GRACE_MS = 10 * 60_000;
+// Still pending after this long, e.g. stuck behind a nonce gap: stop watching it
+const MAX_PENDING_MS = 24 * 60 * 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const failureFor = ({ status, revertReason }: TrackedTransaction): MarketplaceError => {
+  if (status === "reverted") {
+    return revertReason
+      ? describeRevertReason(revertReason)
+      : createMarketplaceError("contract-revert");
+  }
+  if (status === "cancelled") return createMarketplaceError("transaction-cancelled");
+  if (status === "replaced") return createMarketplaceError("transaction-replaced");
+  if (status === "dropped") return createMarketplaceError("transaction-dropped");
+  return createMarketplaceError("unknown", undefined, { message: "Transaction failed." });
+};
+
+export class TransactionFailedError extends MarketplaceError {
+  readonly transaction: TrackedTransaction;
+
+  constructor(transaction: TrackedTransaction) {
+    super(failureFor(transaction));
+    this.name = "TransactionFailedError";
+    this.transaction = transaction;
+  }
+}
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as TrackedTransaction[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTransactions = (transactions: TrackedTransaction[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch {
+    /* storage unavailable */
+  }
+};
+
+/**
+ * Replay a reverted transaction against the state before its block to get the reason
+ */
+async function fetchRevertReason(
+  provider: Provider,
+  transaction: TrackedTransaction,
+  blockNumber: number,
+): Promise<string> {
+  try {
+    await provider.call({
+      from: transaction.from,
+      to: transaction.to,
+      data: transaction.data,
+      value: BigInt(transaction.value),
+      blockTag: Math.max(blockNumber - 1, 0),
+    });
+    // Passing on replay means an earlier transaction in the same block changed the state
+    return "reverted by a state change earlier in the same block, or out of gas";
+  } catch (error) {
+    return decodeMarketplaceError(error).reason ?? "execution reverted";
+  }
+}
+
+/** The mined transaction that used `transaction`'s nonce, newest blocks first */
+async function findReplacement(
+  provider: Provider,
+  transaction: TrackedTransaction,
+): Promise<TransactionResponse | null> {
+  const head = await provider.getBlockNumber();
+  const lowest = Math.max(transaction.startBlock, head - MAX_REPLACEMENT_SCAN_BLOCKS + 1);
+  const from = transaction.from.toLowerCase();
+
+  for (let blockNumber = head; blockNumber >= lowest; blockNumber--) {
+    const block = await provider.getBlock(blockNumber, true);
+    const match = block?.prefetchedTransactions.find(
+      (tx) => tx.from.toLowerCase() === from && tx.nonce === transaction.nonce,
+    );
+    if (match) return match;
+  }
+  return null;
+}
+
+const isSameCall = (replacement: TransactionResponse, transaction: TrackedTransaction) =>
+  replacement.to?.toLowerCase() === transaction.to?.toLowerCase() &&
+  replacement.data === transaction.data &&
+  replacement.value === BigInt(transaction.value);
+
+const isCancellation = (replacement: TransactionResponse, transaction: TrackedTransaction) =>
+  replacement.to?.toLowerCase() === transaction.from.toLowerCase() &&
+  replacement.value === 0n &&
+  replacement.data === "0x";
+
+type SettledListener = (transaction: TrackedTransaction, context: { resumed: boolean }) => void;
+
+export class TransactionManager {
+  private transactions: TrackedTransaction[] = loadTransactions();
+  private readonly listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+  private readonly settledListeners = new Set<SettledListener>();
+  private readonly watchers = new Map<string, Promise<TrackedTransactionResult>>();
+
+  getTransactions(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  /** Called with the full list after every change */
+  subscribe(listener: (transactions: TrackedTransaction[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called once per transaction when it leaves the pending state. `resumed` is set
+   * for transactions picked up again after a reload, which no caller is awaiting.
+   */
+  onSettled(listener: SettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record a just-sent transaction and wait for it to settle.
+   * Resolves once it (or a sped-up replacement) is mined successfully; rejects with
+   * TransactionFailedError when it reverts, is cancelled or is replaced.
+   */
+  async track(
+    tx: TransactionResponse,
+    { kind, description }: { kind: TrackedTxKind; description: string },
+  ): Promise<TrackedTransactionResult> {
+    const startBlock = await getReadOnlyProvider()
+      .getBlockNumber()
+      .catch(() => 0);
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      hash: tx.hash,
+      kind,
+      description,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value.toString(),
+      startBlock,
+      status: "pending",
+      submittedAt: now,
+      updatedAt: now,
+    };
+
+    this.setTransactions([
+      transaction,
+      ...this.transactions.filter((existing) => existing.hash !== tx.hash),
+    ]);
+    return this.watch(transaction, false);
+  }
+
+  /**
+   * Wait for a transaction sent earlier, e.g. one whose hash a flow stored before a
+   * reload. Settles like `track`; a transaction missing from the records is looked up
+   * on the node and tracked from there.
+   */
+  async waitFor(
+    hash: string,
+    details: { kind: TrackedTxKind; description: string },
+  ): Promise<TrackedTransactionResult> {
+    const transaction = this.transactions.find((existing) => existing.hash === hash);
+    if (!transaction) {
+      const tx = await getReadOnlyProvider().getTransaction(hash);
+      if (!tx) throw createMarketplaceError("transaction-dropped");
+      return this.track(tx, details);
+    }
+    if (transaction.status === "pending") return this.watch(transaction, false);
+    if (transaction.status !== "confirmed") throw new TransactionFailedError(transaction);
+
+    const receipt = await getReadOnlyProvider().getTransactionReceipt(
+      transaction.replacedBy ?? transaction.hash,
+    );
+    if (!receipt) {
+      throw createMarketplaceError("network", undefined, {
+        message: "The receipt of a confirmed transaction could not be loaded.",
+      });
+    }
+    return { transaction, receipt };
+  }
+
+  /** Resume watching pending transactions sent on the active network */
+  resume(): void {
+    const { chainId } = getActiveNetwork();
+    this.transactions
+      .filter((transaction) => transaction.status === "pending" && transaction.chainId === chainId)
+      .forEach((transaction) => {
+        this.watch(transaction, true).catch(() => {
+          /* surfaced through onSettled */
+        });
+      });
+  }
+
+  /** Drop everything that is no longer pending */
+  clearSettled(): void {
+    this.setTransactions(this.transactions.filter((transaction) => transaction.status === "pending"));
+  }
+
+  private setTransactions(transactions: TrackedTransaction[]) {
+    // Pending transactions are never evicted; the oldest settled ones go first
+    const pending = transactions.filter((transaction) => transaction.status === "pending");
+    const settled = transactions.filter((transaction) => transaction.status !== "pending");
+    const keep = new Set(
+      [...pending, ...settled.slice(0, Math.max(MAX_STORED_TRANSACTIONS - pending.length, 0))].map(
+        (transaction) => transaction.hash,
+      ),
+    );
+    this.transactions = transactions.filter((transaction) => keep.has(transaction.hash));
+    saveTransactions(this.transactions);
+    this.listeners.forEach((listener) => listener(this.transactions));
+  }
+
+  private settle(
+    transaction: TrackedTransaction,
+    patch: Partial<TrackedTransaction>,
+    resumed: boolean,
+  ): TrackedTransaction {
+    const settled = { ...transaction, ...patch, updatedAt: Date.now() };
+    this.setTransactions(
+      this.transactions.map((existing) => (existing.hash === transaction.hash ? settled : existing)),
+    );
+    this.settledListeners.forEach((listener) => listener(settled, { resumed }));
+    return settled;
+  }
+
+  private watch(transaction: TrackedTransaction, resumed: boolean) {
+    let watcher = this.watchers.get(transaction.hash);
+    if (!watcher) {
+      watcher = this.waitForSettlement(transaction, resumed).finally(() => {
+        this.watchers.delete(transaction.hash);
+      });
+      this.watchers.set(transaction.hash, watcher);
+    }
+    return watcher;
+  }
+
+  private async waitForSettlement(
+    transaction: TrackedTransaction,
+    resumed: boolean,
+  ): Promise<TrackedTransactionResult> {
+    for (;;) {
+      // The read-only provider is rebuilt on network switches; wait to be back on the chain
+      if (getActiveNetwork().chainId !== transaction.chainId) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+      const provider = getReadOnlyProvider();
+
+      try {
+        const receipt = await provider.getTransactionReceipt(transaction.hash);
+        if (receipt) {
+          return await this.settleReceipt(provider, transaction, receipt, {}, resumed);
+        }
+
+        const minedNonce = await provider.getTransactionCount(transaction.from, "latest");
+        if (minedNonce > transaction.nonce) {
+          // Load-balanced RPCs can report the nonce before the receipt; look once more
+          const late = await provider.getTransactionReceipt(transaction.hash);
+          if (late) {
+            return await this.settleReceipt(provider, transaction, late, {}, resumed);
+          }
+          return await this.settleReplaced(provider, transaction, resumed);
+        }
+
+        const age = Date.now() - transaction.submittedAt;
+        if (
+          age > MAX_PENDING_MS ||
+          (age > DROP_GRACE_MS && !(await provider.getTransaction(transaction.hash)))
+        ) {
+          throw new TransactionFailedError(
+            this.settle(transaction, { status: "dropped" }, resumed),
+          );
+        }
+      } catch (error) {
+        if (error instanceof TransactionFailedError) throw error;
+        console.warn(`[Transactions] Status check for ${transaction.hash} failed:`, error);
+      }
+
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async settleReceipt(
+    provider: Provider,
+    transaction: TrackedTransaction,
+    receipt: TransactionReceipt,
+    patch: Partial<TrackedTransaction>,
+    resumed: boolean,
+  ): Promise<TrackedTransactionResult> {
+    if (receipt.status === 1) {
+      const settled = this.settle(
+        transaction,
+        { ...patch, status: "confirmed", blockNumber: receipt.blockNumber },
+        resumed,
+      );
+      return { transaction: settled, receipt };
+    }
+
+    const revertReason = await fetchRevertReason(provider, transaction, receipt.blockNumber);
+    const settled = this.settle(
+      transaction,
+      { ...patch, status: "reverted", blockNumber: receipt.blockNumber, revertReason },
+      resumed,
+    );
+    throw new TransactionFailedError(settled);
+  }
+
+  private async settleReplaced(
+    provider: Provider,
+    transaction: TrackedTransaction,
+    resumed: boolean,
+  ): Promise<TrackedTransactionResult> {
+    const replacement = await findReplacement(provider, transaction);
+
+    if (replacement && isSameCall(replacement, transaction)) {
+      const receipt = await provider.getTransactionReceipt(replacement.hash);
+      if (receipt) {
+        return this.settleReceipt(
+          provider,
+          transaction,
+          receipt,
+          { replacedBy: replacement.hash },
+          resumed,
+        );
+      }
+    }
+
+    // Without the replacement in the scanned blocks nothing shows what took the nonce
+    if (!replacement) {
+      throw new TransactionFailedError(this.settle(transaction, { status: "dropped" }, resumed));
+    }
+
+    const settled = this.settle(
+      transaction,
+      {
+        status: isCancellation(replacement, transaction) ? "cancelled" : "replaced",
+        replacedBy: replacement.hash,
+        blockNumber: replacement.blockNumber ?? undefined,
+      },
+      resumed,
+    );
+    throw new TransactionFailedError(settled);
+  }
+}
+
+export const transactionManager = new TransactionManager();
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { Provider } from "ethers";
+import { estimateFee, feeOverrides, formatFeeEth } from "@/lib/transaction-preflight";
+
+const GWEI = 1_000_000_000n;
+
+const providerWith = (
+  feeData: { gasPrice?: bigint; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint },
+  baseFeePerGas: bigint | null = null,
+) =>
+  ({
+    getFeeData: async () => ({
+      gasPrice: feeData.gasPrice ?? null,
+      maxFeePerGas: feeData.maxFeePerGas ?? null,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? null,
+    }),
+    getBlock: async () => ({ baseFeePerGas }),
+  }) as unknown as Provider;
+
+describe("estimateFee", () => {
+  it("prices EIP-1559 chains from the base fee plus tip, capped by the max fee", async () => {
+    const provider = providerWith(
+      { maxFeePerGas: 50n * GWEI, maxPriorityFeePerGas: 2n * GWEI },
+      10n * GWEI,
+    );
+
+    const fee = await estimateFee(provider, 100_000n);
+
+    expect(fee).toEqual({
+      gasLimit: 120_000n,
+      expectedFeeWei: 100_000n * 12n * GWEI,
+      maxFeeWei: 120_000n * 50n * GWEI,
+      maxFeePerGas: 50n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+      eip1559: true,
+    });
+  });
+
+  it("never expects more than the max fee per gas", async () => {
+    const provider = providerWith(
+      { maxFeePerGas: 20n * GWEI, maxPriorityFeePerGas: 5n * GWEI },
+      30n * GWEI,
+    );
+
+    const fee = await estimateFee(provider, 21_000n);
+
+    expect(fee.expectedFeeWei).toBe(21_000n * 20n * GWEI);
+  });
+
+  it("derives the base fee from the fee data when the block has none", async () => {
+    const provider = providerWith({ maxFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 1n * GWEI });
+
+    const fee = await estimateFee(provider, 21_000n);
+
+    expect(fee.expectedFeeWei).toBe(21_000n * 30n * GWEI);
+  });
+
+  it("prices legacy chains from gasPrice alone", async () => {
+    const provider = providerWith({ gasPrice: 8n * GWEI });
+
+    const fee = await estimateFee(provider, 50_000n);
+
+    expect(fee).toEqual({
+      gasLimit: 60_000n,
+      expectedFeeWei: 50_000n * 8n * GWEI,
+      maxFeeWei: 60_000n * 8n * GWEI,
+      maxFeePerGas: 8n * GWEI,
+      maxPriorityFeePerGas: 0n,
+      eip1559: false,
+    });
+  });
+});
+
+describe("feeOverrides", () => {
+  it("sends EIP-1559 fields or a legacy gasPrice to match the quote", async () => {
+    const eip1559 = await estimateFee(
+      providerWith({ maxFeePerGas: 40n * GWEI, maxPriorityFeePerGas: 3n * GWEI }, 10n * GWEI),
+      10_000n,
+    );
+    const legacy = await estimateFee(providerWith({ gasPrice: 8n * GWEI }), 10_000n);
+
+    expect(feeOverrides(eip1559)).toEqual({
+      gasLimit: 12_000n,
+      maxFeePerGas: 40n * GWEI,
+      maxPriorityFeePerGas: 3n * GWEI,
+    });
+    expect(feeOverrides(legacy)).toEqual({ gasLimit: 12_000n, gasPrice: 8n * GWEI });
+  });
+});
+
+describe("formatFeeEth", () => {
+  it("keeps fees below the shown precision visible", () => {
+    expect(formatFeeEth(0n)).toBe("0.000000");
+    expect(formatFeeEth(100n * GWEI)).toBe("< 0.000001");
+    expect(formatFeeEth(2_520_000n * GWEI)).toBe("0.002520");
+  });
+});
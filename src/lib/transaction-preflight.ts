@@ -0,0 +1,122 @@
+/**
+ * Pre-flight checks for marketplace writes
+ * Before a write is signed it is run with staticCall and its gas estimated, then the
+ * fee is priced from EIP-1559 fee data. A failure at either step is decoded so the
+ * confirmation dialog can show why instead of letting the user sign a doomed transaction.
+ */
+
+import { formatEther, type Overrides, type Provider } from "ethers";
+import type {
+  MarketplaceClient,
+  MarketplaceWriteArgs,
+  MarketplaceWriteFunctionName,
+} from "@/lib/marketplace-client";
+import { decodeMarketplaceError, type MarketplaceError } from "@/lib/marketplace-errors";
+
+export type FeeEstimate = {
+  /** Gas limit to send with the transaction: the estimate plus headroom */
+  gasLimit: bigint;
+  /** Cost at the current base fee plus priority fee, if the estimate is accurate */
+  expectedFeeWei: bigint;
+  /** Most the wallet can charge: gasLimit × maxFeePerGas */
+  maxFeeWei: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** False on chains without EIP-1559 fee data, where gasPrice prices both figures */
+  eip1559: boolean;
+};
+
+export type TransactionPreflight =
+  { status: "ready"; fee: FeeEstimate } | { status: "blocked"; error: MarketplaceError };
+
+/** What the confirmation dialog shows while the pre-flight for a write runs */
+export type TransactionConfirmRequest = {
+  title: string;
+  description: string;
+  preflight: () => Promise<TransactionPreflight>;
+};
+
+/** Resolves with the fee to send with, or null when the user cancels */
+export type ConfirmTransaction = (
+  request: TransactionConfirmRequest,
+) => Promise<FeeEstimate | null>;
+
+// Storage writes can cost more than estimated when state changes between estimate and mining
+const GAS_LIMIT_HEADROOM_PERCENT = 20n;
+
+const minBigInt = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/**
+ * Price `gas` units from the provider's current fee data
+ */
+export async function estimateFee(provider: Provider, gas: bigint): Promise<FeeEstimate> {
+  const [feeData, block] = await Promise.all([provider.getFeeData(), provider.getBlock("latest")]);
+  const gasLimit = (gas * (100n + GAS_LIMIT_HEADROOM_PERCENT)) / 100n;
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = feeData;
+  if (maxFeePerGas != null && maxPriorityFeePerGas != null) {
+    const baseFee = block?.baseFeePerGas ?? maxFeePerGas - maxPriorityFeePerGas;
+    const effectiveGasPrice = minBigInt(baseFee + maxPriorityFeePerGas, maxFeePerGas);
+    return {
+      gasLimit,
+      expectedFeeWei: gas * effectiveGasPrice,
+      maxFeeWei: gasLimit * maxFeePerGas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      eip1559: true,
+    };
+  }
+
+  const gasPrice = feeData.gasPrice ?? 0n;
+  return {
+    gasLimit,
+    expectedFeeWei: gas * gasPrice,
+    maxFeeWei: gasLimit * gasPrice,
+    maxFeePerGas: gasPrice,
+    maxPriorityFeePerGas: 0n,
+    eip1559: false,
+  };
+}
+
+/**
+ * Overrides that send a write with the quoted fee, so the maximum shown in the
+ * confirmation dialog is the one the wallet is asked to sign
+ */
+export const feeOverrides = (fee: FeeEstimate): Overrides =>
+  fee.eip1559
+    ? {
+        gasLimit: fee.gasLimit,
+        maxFeePerGas: fee.maxFeePerGas,
+        maxPriorityFeePerGas: fee.maxPriorityFeePerGas,
+      }
+    : { gasLimit: fee.gasLimit, gasPrice: fee.maxFeePerGas };
+
+/**
+ * Simulate a write from the client's signer and estimate its fee.
+ * Never throws: any failure comes back as a blocked pre-flight with the decoded error.
+ */
+export async function preflightWrite<N extends MarketplaceWriteFunctionName>(
+  client: MarketplaceClient,
+  name: N,
+  ...args: MarketplaceWriteArgs<N>
+): Promise<TransactionPreflight> {
+  try {
+    const provider = client.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("MarketplaceClient runner has no provider for gas estimation");
+    }
+    await client.simulate(name, ...args);
+    const gas = await client.estimateGas(name, ...args);
+    return { status: "ready", fee: await estimateFee(provider, gas) };
+  } catch (error) {
+    console.warn(`[Preflight] ${name} failed:`, error);
+    return { status: "blocked", error: decodeMarketplaceError(error) };
+  }
+}
+
+/** ETH amount with up to six decimals, keeping tiny fees visible */
+export function formatFeeEth(wei: bigint): string {
+  const eth = Number(formatEther(wei));
+  if (eth > 0 && eth < 0.000001) return "< 0.000001";
+  return eth.toFixed(6);
+}
@@ -0,0 +1,180 @@
+/**
+ * FHEVM user decryption
+ * Generates a decryption keypair, has the user sign the EIP-712 permit for it and
+ * asks the relayer to re-encrypt handles the account is allowed to read (FHE.allow).
+ * Signed permits are cached in localStorage per chain, contract and account until they
+ * expire, so one signature covers every tab and visit; expired permits are pruned
+ * whenever a permit is requested.
+ */
+
+import type { Signer } from "ethers";
+import type { ClearValueType } from "@zama-fhe/relayer-sdk/web";
+import { getFHEInstance } from "@/lib/fhe";
+
+// How long a signed permit stays valid; the relayer rejects requests outside this window
+const PERMIT_DURATION_DAYS = 7;
+// Re-sign slightly before expiry so a request never races the deadline
+const EXPIRY_MARGIN_SECONDS = 5 * 60;
+
+const STORAGE_PREFIX = "time-marketplace:decrypt-permit";
+
+const ZERO_HANDLE = `0x${"0".repeat(64)}`;
+
+export type UserDecryptPermit = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddress: string;
+  userAddress: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+const storageKey = (chainId: bigint, contractAddress: string, userAddress: string) =>
+  `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const isPermitValid = (permit: UserDecryptPermit) =>
+  permit.startTimestamp + permit.durationDays * 86_400 - EXPIRY_MARGIN_SECONDS > nowSeconds();
+
+const readPermit = (key: string): UserDecryptPermit | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return null;
+    const permit = JSON.parse(raw) as UserDecryptPermit;
+    return isPermitValid(permit) ? permit : null;
+  } catch {
+    return null;
+  }
+};
+
+const writePermit = (key: string, permit: UserDecryptPermit | null) => {
+  try {
+    if (permit) {
+      window.localStorage.setItem(key, JSON.stringify(permit));
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+};
+
+/** Remove stored permits of any account that have expired or cannot be read */
+const pruneExpiredPermits = () => {
+  try {
+    const keys = Array.from({ length: window.localStorage.length }, (_, index) =>
+      window.localStorage.key(index),
+    );
+    for (const key of keys) {
+      if (key?.startsWith(`${STORAGE_PREFIX}:`) && !readPermit(key)) {
+        window.localStorage.removeItem(key);
+      }
+    }
+  } catch {
+    /* storage unavailable */
+  }
+};
+
+const getSignerContext = async (signer: Signer) => {
+  const network = await signer.provider?.getNetwork();
+  if (!network) {
+    throw new Error("Signer is not connected to a network");
+  }
+  return { chainId: network.chainId, userAddress: await signer.getAddress() };
+};
+
+/**
+ * Return a cached permit for (contract, signer) or prompt the wallet to sign a new one
+ */
+export async function getUserDecryptPermit(
+  signer: Signer,
+  contractAddress: string,
+): Promise<UserDecryptPermit> {
+  const { chainId, userAddress } = await getSignerContext(signer);
+  const key = storageKey(chainId, contractAddress, userAddress);
+
+  pruneExpiredPermits();
+  const cached = readPermit(key);
+  if (cached) return cached;
+
+  const fhe = await getFHEInstance();
+  const { publicKey, privateKey } = fhe.generateKeypair();
+  const startTimestamp = nowSeconds();
+  const eip712 = fhe.createEIP712(
+    publicKey,
+    [contractAddress],
+    startTimestamp,
+    PERMIT_DURATION_DAYS,
+  );
+
+  // ethers derives the domain type itself and rejects an explicit EIP712Domain entry
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+    eip712.message,
+  );
+
+  const permit: UserDecryptPermit = {
+    publicKey,
+    privateKey,
+    signature,
+    contractAddress,
+    userAddress,
+    startTimestamp,
+    durationDays: PERMIT_DURATION_DAYS,
+  };
+  writePermit(key, permit);
+  return permit;
+}
+
+export async function clearUserDecryptPermit(signer: Signer, contractAddress: string) {
+  const { chainId, userAddress } = await getSignerContext(signer);
+  writePermit(storageKey(chainId, contractAddress, userAddress), null);
+}
+
+const toBigInt = (value: ClearValueType | undefined): bigint => {
+  if (value === undefined) {
+    throw new Error("Relayer response is missing a requested handle");
+  }
+  if (typeof value === "boolean") return value ? 1n : 0n;
+  return BigInt(value);
+};
+
+/**
+ * Decrypt handles of `contractAddress` that the signer's account may read.
+ * Results follow the order of `handles`; uninitialized (zero) handles decrypt to 0n.
+ */
+export async function userDecryptHandles(
+  signer: Signer,
+  contractAddress: string,
+  handles: string[],
+): Promise<bigint[]> {
+  const pending = Array.from(
+    new Set(handles.filter((handle) => handle.toLowerCase() !== ZERO_HANDLE)),
+  );
+  if (!pending.length) return handles.map(() => 0n);
+
+  const permit = await getUserDecryptPermit(signer, contractAddress);
+  const fhe = await getFHEInstance();
+
+  const results = await fhe.userDecrypt(
+    pending.map((handle) => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace(/^0x/, ""),
+    [contractAddress],
+    permit.userAddress,
+    permit.startTimestamp,
+    permit.durationDays,
+  );
+
+  // Relayer keys results by handle; normalise case before looking them up
+  const clearValues = new Map(
+    Object.entries(results).map(([handle, value]) => [handle.toLowerCase(), value]),
+  );
+  return handles.map((handle) =>
+    handle.toLowerCase() === ZERO_HANDLE ? 0n : toBigInt(clearValues.get(handle.toLowerCase())),
+  );
+}
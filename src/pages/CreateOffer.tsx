@@ -1,184 +1,198 @@
-import { useState } from "react";
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Shield, Lock, DollarSign, Users, Loader2 } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
-import { parseEther } from "ethers";
-import { contractAddress, getContractWithSigner } from "@/lib/contract-client";
-import { useEncrypt } from "@/hooks/useFHE";
-import { useWallet } from "@/hooks/use-wallet";
-
-export default function CreateOffer() {
-  const { toast } = useToast();
-  const { provider, account, connectWallet } = useWallet();
-  const { encryptBatch, isEncrypting } = useEncrypt();
-  const [isStandardSubmitting, setIsStandardSubmitting] = useState(false);
-  const [isFheSubmitting, setIsFheSubmitting] = useState(false);
-
-  const ensureWallet = async () => {
-    if (!provider) {
-      throw new Error("Wallet provider unavailable. Please install MetaMask.");
-    }
-
-    let userAccount = account;
-    if (!userAccount) {
-      userAccount = await connectWallet();
-    }
-
-    if (!userAccount) {
-      throw new Error("Please connect your wallet to continue.");
-    }
-
-    return { provider, account: userAccount };
-  };
-
-  const validatePositiveNumber = (value: string, field: string) => {
-    const parsed = Number(value);
-    if (!Number.isFinite(parsed) || parsed <= 0) {
-      throw new Error(`${field} must be greater than zero.`);
-    }
-    return parsed;
-  };
-
-  const handleStandardSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const form = e.currentTarget;
-
-    try {
-      setIsStandardSubmitting(true);
-      const { provider } = await ensureWallet();
-      const formData = new FormData(form);
-
-      const title = String(formData.get("title") ?? "").trim();
-      const description = String(formData.get("description") ?? "").trim();
-      const price = String(formData.get("price") ?? "0");
-      validatePositiveNumber(price, "Price");
-      const slots = validatePositiveNumber(String(formData.get("slots") ?? "0"), "Slots");
-      const durationDays = validatePositiveNumber(
-        String(formData.get("duration") ?? "0"),
-        "Duration",
-      );
-
-      if (!title || !description) {
-        throw new Error("Title and description are required.");
-      }
-
-      if (!contractAddress) {
-        throw new Error("Contract address is not configured. Please set VITE_CONTRACT_ADDRESS.");
-      }
-
-      const priceWei = parseEther(price);
-      const contract = await getContractWithSigner(provider);
-
-      const tx = await contract.createOffer(
-        title,
-        description,
-        priceWei,
-        BigInt(Math.ceil(durationDays)),
-        BigInt(Math.ceil(slots)),
-      );
-
-      toast({
-        title: "Transaction Submitted",
-        description: `Creating offer... TX: ${tx.hash.slice(0, 10)}...`,
-      });
-
-      await tx.wait();
-
-      toast({
-        title: "Offer Created Successfully!",
-        description: "Your offer is now live on the marketplace.",
-      });
-
-      form.reset();
-    } catch (error: any) {
-      toast({
-        title: "Failed to create offer",
-        description: error?.message || "Unknown error occurred.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsStandardSubmitting(false);
-    }
-  };
-
-  const handleFHESubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const form = e.currentTarget;
-
-    try {
-      setIsFheSubmitting(true);
-      const { provider, account } = await ensureWallet();
-      const formData = new FormData(form);
-
-      const title = String(formData.get("fhe-title") ?? "").trim();
-      const description = String(formData.get("fhe-description") ?? "").trim();
-      const price = String(formData.get("fhe-price") ?? "0");
-      validatePositiveNumber(price, "Price");
-      const slots = validatePositiveNumber(String(formData.get("fhe-slots") ?? "0"), "Slots");
-      const durationDays = validatePositiveNumber(
-        String(formData.get("fhe-duration") ?? "0"),
-        "Duration",
-      );
-
-      if (!title || !description) {
-        throw new Error("Title and description are required.");
-      }
-
-      const priceWei = parseEther(price);
-      const slotsCount = BigInt(Math.ceil(slots));
-      const duration = BigInt(Math.ceil(durationDays));
-
-      const { handles, proof } = await encryptBatch(contractAddress, account, [
-        { value: priceWei, type: "uint64" },
-        { value: duration, type: "uint32" },
-        { value: slotsCount, type: "uint32" },
-      ]);
-
-      if (handles.length < 3) {
-        throw new Error("Encryption failed to produce all required handles.");
-      }
-
-      const contract = await getContractWithSigner(provider);
-      const tx = await contract.createOfferWithFHE(
-        title,
-        description,
-        priceWei,
-        duration,
-        slotsCount,
-        handles[0],
-        handles[1],
-        handles[2],
-        proof,
-      );
-
-      toast({
-        title: "Transaction Submitted",
-        description: `Submitting encrypted offer... TX: ${tx.hash.slice(0, 10)}...`,
-      });
+import { useCreateOffer } from "@/hooks/use-create-offer";
+import { TransactionConfirmDialog } from "@/components/TransactionConfirmDialog";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  EMPTY_OFFER_FORM,
+  offerFormSchema,
+  TITLE_MAX_LENGTH,
+} from "@/lib/offer-creation";
+import type { CreateOfferFormData } from "@/types/contract";
+
+type OfferFormFieldsProps = {
+  form: UseFormReturn<CreateOfferFormData>;
+  encrypted?: boolean;
+  disabled: boolean;
+};
+
+const OfferFormFields = ({ form, encrypted = false, disabled }: OfferFormFieldsProps) => {
+  const inputClassName = encrypted ? "bg-background/50 border-cyber-pink/30" : "bg-background/50";
+  const encryptedHint = encrypted && (
+    <FormDescription>Will be encrypted before submission</FormDescription>
+  );
 
-      await tx.wait();
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="title"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Offer Title</FormLabel>
+            <FormControl>
+              <Input
+                placeholder={encrypted ? "Enterprise Privacy Package" : "Premium Time Slots Q1 2024"}
+                maxLength={TITLE_MAX_LENGTH}
+                disabled={disabled}
+                className="bg-background/50"
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="description"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Description</FormLabel>
+            <FormControl>
+              <Textarea
+                placeholder={
+                  encrypted ? "Describe your encrypted offer..." : "Describe your offer in detail..."
+                }
+                rows={4}
+                disabled={disabled}
+                className="bg-background/50"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              {field.value.length}/{DESCRIPTION_MAX_LENGTH} characters
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="flex items-center gap-2">
+                {encrypted ? (
+                  <Lock className="h-4 w-4 text-cyber-pink" />
+                ) : (
+                  <DollarSign className="h-4 w-4 text-primary" />
+                )}
+                {encrypted ? "Encrypted Price (ETH)" : "Price (ETH)"}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0.5"
+                  disabled={disabled}
+                  className={inputClassName}
+                  {...field}
+                />
+              </FormControl>
+              {encryptedHint}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="slots"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="flex items-center gap-2">
+                {encrypted ? (
+                  <Lock className="h-4 w-4 text-cyber-pink" />
+                ) : (
+                  <Users className="h-4 w-4 text-accent" />
+                )}
+                {encrypted ? "Encrypted Slots" : "Total Slots"}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder={encrypted ? "20" : "50"}
+                  disabled={disabled}
+                  className={inputClassName}
+                  {...field}
+                />
+              </FormControl>
+              {encryptedHint}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
 
-      toast({
-        title: "FHE Offer Created!",
-        description: "Your encrypted offer has been published with full privacy protection.",
-      });
+      <FormField
+        control={form.control}
+        name="duration"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="flex items-center gap-2">
+              {encrypted && <Lock className="h-4 w-4 text-cyber-pink" />}
+              {encrypted ? "Encrypted Duration (days)" : "Duration (days)"}
+            </FormLabel>
+            <FormControl>
+              <Input
+                type="text"
+                inputMode="numeric"
+                placeholder="30"
+                disabled={disabled}
+                className={inputClassName}
+                {...field}
+              />
+            </FormControl>
+            {encryptedHint}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+};
 
-      form.reset();
-    } catch (error: any) {
-      toast({
-        title: "Failed to create encrypted offer",
-        description: error?.message || "Unknown error occurred.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsFheSubmitting(false);
-    }
-  };
+export default function CreateOffer() {
+  const { createOffer, activeMode, stage, isSubmitting, confirmDialogProps } = useCreateOffer();
+  const isStandardSubmitting = activeMode === "standard";
+  const isFheSubmitting = activeMode === "encrypted";
+
+  const standardForm = useForm<CreateOfferFormData>({
+    resolver: zodResolver(offerFormSchema),
+    defaultValues: EMPTY_OFFER_FORM,
+  });
+  const fheForm = useForm<CreateOfferFormData>({
+    resolver: zodResolver(offerFormSchema),
+    defaultValues: EMPTY_OFFER_FORM,
+  });
+
+  const handleStandardSubmit = standardForm.handleSubmit(async (values) => {
+    await createOffer(values, "standard");
+  });
+
+  const handleFHESubmit = fheForm.handleSubmit(async (values) => {
+    await createOffer(values, "encrypted");
+  });
 
   return (
     <div className="max-w-4xl mx-auto space-y-8">
@@ -208,94 +222,27 @@ export default function CreateOffer() {
         {/* Standard Offer Form */}
         <TabsContent value="standard">
           <Card className="p-6 bg-gradient-card backdrop-blur border-border/40">
-            <form onSubmit={handleStandardSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="title">Offer Title</Label>
-                <Input
-                  id="title"
-                  name="title"
-                  placeholder="Premium Time Slots Q1 2024"
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  name="description"
-                  placeholder="Describe your offer in detail..."
-                  rows={4}
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-2">
-                  <Label htmlFor="price" className="flex items-center gap-2">
-                    <DollarSign className="h-4 w-4 text-primary" />
-                    Price (ETH)
-                  </Label>
-                  <Input
-                    id="price"
-                    name="price"
-                    type="number"
-                    step="0.001"
-                    placeholder="0.5"
-                    required
-                    className="bg-background/50"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="slots" className="flex items-center gap-2">
-                    <Users className="h-4 w-4 text-accent" />
-                    Total Slots
-                  </Label>
-                  <Input
-                    id="slots"
-                    name="slots"
-                    type="number"
-                    placeholder="50"
-                    required
-                    className="bg-background/50"
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="duration" className="flex items-center gap-2">
-                  Duration (days)
-                </Label>
-                <Input
-                  id="duration"
-                  name="duration"
-                  type="number"
-                  placeholder="30"
-                  min="1"
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-
-              <Button
-                type="submit"
-                variant="cyber"
-                className="w-full"
-                disabled={isStandardSubmitting}
-              >
-                {isStandardSubmitting ? (
-                  <span className="flex items-center justify-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Creating Offer...
-                  </span>
-                ) : (
-                  "Create Standard Offer"
-                )}
-              </Button>
-            </form>
+            <Form {...standardForm}>
+              <form onSubmit={handleStandardSubmit} className="space-y-6" noValidate>
+                <OfferFormFields form={standardForm} disabled={isSubmitting} />
+
+                <Button
+                  type="submit"
+                  variant="cyber"
+                  className="w-full"
+                  disabled={isSubmitting}
+                >
+                  {isStandardSubmitting ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      {stage === "reviewing" ? "Reviewing..." : "Creating Offer..."}
+                    </span>
+                  ) : (
+                    "Create Standard Offer"
+                  )}
+                </Button>
+              </form>
+            </Form>
           </Card>
         </TabsContent>
 
@@ -317,107 +264,36 @@ export default function CreateOffer() {
               </div>
             </div>
 
-            <form onSubmit={handleFHESubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="fhe-title">Offer Title</Label>
-                <Input
-                  id="fhe-title"
-                  name="fhe-title"
-                  placeholder="Enterprise Privacy Package"
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="fhe-description">Description</Label>
-                <Textarea
-                  id="fhe-description"
-                  name="fhe-description"
-                  placeholder="Describe your encrypted offer..."
-                  rows={4}
-                  required
-                  className="bg-background/50"
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-2">
-                  <Label htmlFor="fhe-price" className="flex items-center gap-2">
-                    <Lock className="h-4 w-4 text-cyber-pink" />
-                    Encrypted Price (ETH)
-                  </Label>
-                  <Input
-                    id="fhe-price"
-                    name="fhe-price"
-                    type="number"
-                    step="0.001"
-                    placeholder="0.5"
-                    required
-                    className="bg-background/50 border-cyber-pink/30"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Will be encrypted before submission
-                  </p>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="fhe-slots" className="flex items-center gap-2">
-                    <Lock className="h-4 w-4 text-cyber-pink" />
-                    Encrypted Slots
-                  </Label>
-                  <Input
-                    id="fhe-slots"
-                    name="fhe-slots"
-                    type="number"
-                    placeholder="20"
-                    required
-                    className="bg-background/50 border-cyber-pink/30"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Will be encrypted before submission
-                  </p>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="fhe-duration" className="flex items-center gap-2">
-                  <Lock className="h-4 w-4 text-cyber-pink" />
-                  Encrypted Duration (days)
-                </Label>
-                <Input
-                  id="fhe-duration"
-                  name="fhe-duration"
-                  type="number"
-                  placeholder="30"
-                  min="1"
-                  required
-                  className="bg-background/50 border-cyber-pink/30"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Will be encrypted before submission
-                </p>
-              </div>
-
-              <Button
-                type="submit"
-                variant="cyber"
-                className="w-full"
-                disabled={isFheSubmitting || isEncrypting}
-              >
-                {isFheSubmitting || isEncrypting ? (
-                  <span className="flex items-center justify-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Encrypting & Publishing...
-                  </span>
-                ) : (
-                  "Create FHE Offer"
-                )}
-              </Button>
-            </form>
+            <Form {...fheForm}>
+              <form onSubmit={handleFHESubmit} className="space-y-6" noValidate>
+                <OfferFormFields form={fheForm} encrypted disabled={isSubmitting} />
+
+                <Button
+                  type="submit"
+                  variant="cyber"
+                  className="w-full"
+                  disabled={isSubmitting}
+                >
+                  {isFheSubmitting ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      {stage === "encrypting"
+                        ? "Encrypting..."
+                        : stage === "reviewing"
+                          ? "Reviewing..."
+                          : "Publishing..."}
+                    </span>
+                  ) : (
+                    "Create FHE Offer"
+                  )}
+                </Button>
+              </form>
+            </Form>
           </Card>
         </TabsContent>
       </Tabs>
+
+      <TransactionConfirmDialog {...confirmDialogProps} />
     </div>
   );
 }
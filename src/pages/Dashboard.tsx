@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,57 +17,48 @@ import {
 import { formatEther } from "ethers";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/hooks/use-wallet";
-import {
-  fetchContractStats,
-  fetchPlatformSettings,
-  getContractWithSigner,
-} from "@/lib/contract-client";
-import type { ContractStats } from "@/types/contract";
+import { getContractWithSigner } from "@/lib/contract-client";
+import { useContractStats, usePlatformSettings } from "@/hooks/use-marketplace-queries";
+import { transactionManager } from "@/lib/transaction-manager";
+import { decodeMarketplaceError, formatMarketplaceError } from "@/lib/marketplace-errors";
+import { feeOverrides, preflightWrite } from "@/lib/transaction-preflight";
+import { useTransactionConfirm } from "@/hooks/use-transaction-confirm";
+import { TransactionConfirmDialog } from "@/components/TransactionConfirmDialog";
 
 const formatBigInt = (value: bigint) => Number(value);
 
 export default function Dashboard() {
   const { toast } = useToast();
-  const { provider, account, connectWallet, isConnecting } = useWallet();
-  const [stats, setStats] = useState<ContractStats | null>(null);
-  const [settings, setSettings] = useState<{
-    platformFeeBp: bigint;
-    treasury: string;
-    owner: string;
-  } | null>(null);
+  const { provider, account, connectWallet, isConnecting, ensureNetwork } = useWallet();
+  const statsQuery = useContractStats();
+  const settingsQuery = usePlatformSettings();
   const [platformFeeInput, setPlatformFeeInput] = useState<string>("0");
   const [treasuryInput, setTreasuryInput] = useState<string>("");
-  const [isLoading, setIsLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { confirm, dialogProps } = useTransactionConfirm();
+
+  const stats = statsQuery.data ?? null;
+  const settings = settingsQuery.data ?? null;
+  const isLoading = statsQuery.isFetching || settingsQuery.isFetching;
+  const queryError = statsQuery.error ?? settingsQuery.error;
+  const error = queryError ? decodeMarketplaceError(queryError).message : null;
 
   const isOwner = useMemo(() => {
     if (!settings?.owner || !account) return false;
     return settings.owner.toLowerCase() === account.toLowerCase();
   }, [settings, account]);
 
-  const loadData = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const [contractStats, platformSettings] = await Promise.all([
-        fetchContractStats(),
-        fetchPlatformSettings(),
-      ]);
-      setStats(contractStats);
-      setSettings(platformSettings);
-      setPlatformFeeInput((Number(platformSettings.platformFee) / 100).toString());
-      setTreasuryInput(platformSettings.treasury);
-    } catch (err: any) {
-      setError(err?.message || "Failed to load dashboard data.");
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
+  // Reset the inputs to the on-chain values whenever those load or change
   useEffect(() => {
-    loadData();
-  }, [loadData]);
+    if (!settings) return;
+    setPlatformFeeInput((Number(settings.platformFee) / 100).toString());
+    setTreasuryInput(settings.treasury);
+  }, [settings]);
+
+  const refresh = () => {
+    statsQuery.refetch();
+    settingsQuery.refetch();
+  };
 
   const handleUpdateFee = async () => {
     if (!provider) {
@@ -88,22 +79,32 @@ export default function Dashboard() {
 
     setActionLoading("fee");
     try {
-      const contract = await getContractWithSigner(provider);
-      const tx = await contract.updatePlatformFee(BigInt(basisPoints));
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const contract = await getContractWithSigner(walletProvider);
+      const fee = await confirm({
+        title: "Update platform fee",
+        description: `Set the platform fee to ${percent.toFixed(2)}% on all future purchases.`,
+        preflight: () => preflightWrite(contract, "updatePlatformFee", BigInt(basisPoints)),
+      });
+      if (!fee) return;
+      const tx = await contract.updatePlatformFee(BigInt(basisPoints), feeOverrides(fee));
       toast({
         title: "Transaction Submitted",
         description: `Updating platform fee... TX: ${tx.hash.slice(0, 10)}...`,
       });
-      await tx.wait();
+      await transactionManager.track(tx, {
+        kind: "updatePlatformFee",
+        description: `Set platform fee to ${percent.toFixed(2)}%`,
+      });
       toast({
         title: "Platform Fee Updated",
         description: `New platform fee is ${percent.toFixed(2)}%.`,
       });
-      await loadData();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Failed to update platform fee",
-        description: error?.message || "Unknown error occurred.",
+        description: formatMarketplaceError(error),
         variant: "destructive",
       });
     } finally {
@@ -127,22 +128,32 @@ export default function Dashboard() {
 
     setActionLoading("treasury");
     try {
-      const contract = await getContractWithSigner(provider);
-      const tx = await contract.updateTreasury(treasuryInput);
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const contract = await getContractWithSigner(walletProvider);
+      const fee = await confirm({
+        title: "Update treasury",
+        description: `Platform fees will be sent to ${treasuryInput}.`,
+        preflight: () => preflightWrite(contract, "updateTreasury", treasuryInput),
+      });
+      if (!fee) return;
+      const tx = await contract.updateTreasury(treasuryInput, feeOverrides(fee));
       toast({
         title: "Transaction Submitted",
         description: `Updating treasury... TX: ${tx.hash.slice(0, 10)}...`,
       });
-      await tx.wait();
+      await transactionManager.track(tx, {
+        kind: "updateTreasury",
+        description: `Set treasury to ${treasuryInput.slice(0, 6)}...${treasuryInput.slice(-4)}`,
+      });
       toast({
         title: "Treasury Updated",
         description: `Treasury address updated to ${treasuryInput}.`,
       });
-      await loadData();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Failed to update treasury",
-        description: error?.message || "Unknown error occurred.",
+        description: formatMarketplaceError(error),
         variant: "destructive",
       });
     } finally {
@@ -157,21 +168,32 @@ export default function Dashboard() {
     }
     setActionLoading("withdraw");
     try {
-      const contract = await getContractWithSigner(provider);
-      const tx = await contract.emergencyWithdraw();
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const contract = await getContractWithSigner(walletProvider);
+      const fee = await confirm({
+        title: "Emergency withdrawal",
+        description: "Transfer the contract's entire balance to the owner.",
+        preflight: () => preflightWrite(contract, "emergencyWithdraw"),
+      });
+      if (!fee) return;
+      const tx = await contract.emergencyWithdraw(feeOverrides(fee));
       toast({
         title: "Transaction Submitted",
         description: `Withdrawing funds... TX: ${tx.hash.slice(0, 10)}...`,
       });
-      await tx.wait();
+      await transactionManager.track(tx, {
+        kind: "emergencyWithdraw",
+        description: "Emergency withdrawal",
+      });
       toast({
         title: "Emergency Withdrawal Completed",
         description: "Funds have been transferred to the owner.",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Withdrawal failed",
-        description: error?.message || "Unknown error occurred.",
+        description: formatMarketplaceError(error),
         variant: "destructive",
       });
     } finally {
@@ -192,11 +214,11 @@ export default function Dashboard() {
         </div>
         <div className="flex gap-2">
           {!account && (
-            <Button onClick={connectWallet} disabled={isConnecting}>
+            <Button onClick={() => connectWallet()} disabled={isConnecting}>
               {isConnecting ? "Connecting..." : "Connect Wallet"}
             </Button>
           )}
-          <Button variant="outline" onClick={loadData} disabled={isLoading}>
+          <Button variant="outline" onClick={refresh} disabled={isLoading}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
@@ -277,7 +299,7 @@ export default function Dashboard() {
             <div>
               <p className="text-sm text-muted-foreground mb-2">Platform Fee</p>
               <p className="text-xl font-bold">
-                {(Number(settings.platformFeeBp) / 100).toFixed(2)}%
+                {(Number(settings.platformFee) / 100).toFixed(2)}%
               </p>
             </div>
             <div>
@@ -364,6 +386,8 @@ export default function Dashboard() {
           Connect with the owner wallet to access admin controls.
         </Card>
       )}
+
+      <TransactionConfirmDialog {...dialogProps} />
     </div>
   );
 }
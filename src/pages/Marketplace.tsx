@@ -1,63 +1,147 @@
-import { useMemo, useState, useEffect } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Clock, Users, Shield } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Search, Clock, Users, Shield, Scale, ShoppingCart } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
 import { formatEther } from "ethers";
-import type { Offer, ContractStats } from "@/types/contract";
-import { fetchActiveOffers, fetchContractStats } from "@/lib/contract-client";
+import type { Offer } from "@/types/contract";
+import {
+  useActiveOffers,
+  useContractStats,
+  useRevealedOfferIds,
+} from "@/hooks/use-marketplace-queries";
+import { deriveOfferStatus, isClientEncrypted } from "@/lib/offers";
+import { useNow } from "@/hooks/use-now";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { usePurchaseCart } from "@/hooks/use-purchase-cart";
+import { useComparisonAvailable } from "@/hooks/use-price-comparison";
+import { decodeMarketplaceError } from "@/lib/marketplace-errors";
+import {
+  applyOfferFilters,
+  DEFAULT_OFFER_FILTERS,
+  parseOfferFilters,
+  serializeOfferFilters,
+  type OfferFilters,
+} from "@/lib/offer-filters";
+import { PriceComparePanel } from "@/components/PriceComparePanel";
+import { OfferFilterBar } from "@/components/OfferFilterBar";
+import { HighlightedText } from "@/components/HighlightedText";
+import { useOfferSearch } from "@/hooks/use-offer-search";
+import { OfferPagination } from "@/components/OfferPagination";
+import { OfferStatusBadge } from "@/components/OfferStatusBadge";
+import { OfferCountdown } from "@/components/OfferCountdown";
+
+// Cards rendered per page; the full list is only held in memory
+const OFFERS_PER_PAGE = 12;
+// How often expiry is re-checked when filtering; card countdowns tick every second
+const EXPIRY_REFRESH_MS = 30_000;
+
+const EMPTY_OFFERS: Offer[] = [];
+const NO_REVEALED_IDS = new Set<bigint>();
 
 export default function Marketplace() {
-  const [offers, setOffers] = useState<Offer[]>([]);
-  const [stats, setStats] = useState<ContractStats | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let active = true;
-
-    const load = async () => {
-      setIsLoading(true);
-      setError(null);
-      try {
-        const [activeOffers, contractStats] = await Promise.all([
-          fetchActiveOffers(),
-          fetchContractStats(),
-        ]);
-
-        if (!active) return;
-        setOffers(activeOffers);
-        setStats(contractStats);
-      } catch (err: any) {
-        if (!active) return;
-        setError(err?.message || "Failed to load marketplace data.");
-      } finally {
-        if (active) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    load();
-    return () => {
-      active = false;
-    };
-  }, []);
-
-  const filteredOffers = useMemo(
-    () =>
-      offers.filter(
-        (offer) =>
-          offer.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          offer.description.toLowerCase().includes(searchQuery.toLowerCase()),
+  const offersQuery = useActiveOffers();
+  const { data: stats } = useContractStats();
+  const { data: revealedIds = NO_REVEALED_IDS } = useRevealedOfferIds();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [compareIds, setCompareIds] = useState<bigint[]>([]);
+  const { account } = useWallet();
+  const { addToCart } = usePurchaseCart();
+  const canCompare = useComparisonAvailable();
+  const { toast } = useToast();
+  const now = useNow(EXPIRY_REFRESH_MS);
+
+  const offers = offersQuery.data?.offers ?? EMPTY_OFFERS;
+  const isLoading = offersQuery.isPending;
+  const isLoadingMore = !!offersQuery.data && !offersQuery.data.isComplete && !offersQuery.isError;
+  const error = offersQuery.error ? decodeMarketplaceError(offersQuery.error).message : null;
+
+  const filters = useMemo(() => parseOfferFilters(searchParams), [searchParams]);
+  const updateFilters = useCallback(
+    (patch: Partial<OfferFilters>) =>
+      setSearchParams(
+        (current) => serializeOfferFilters({ ...parseOfferFilters(current), ...patch }),
+        { replace: true },
       ),
-    [offers, searchQuery],
+    [setSearchParams],
+  );
+  const searchQuery = filters.q;
+  const searchResults = useOfferSearch(offers, searchQuery);
+
+  // The contract keeps expired offers in its active list, so they are pruned here
+  const purchasableOffers = useMemo(
+    () =>
+      offers
+        .map((offer) => ({
+          offer,
+          status: deriveOfferStatus(offer, { now, revealed: revealedIds.has(offer.id) }),
+        }))
+        .filter(({ status }) => status.isPurchasable),
+    [offers, revealedIds, now],
   );
 
+  const filteredOffers = useMemo(() => {
+    const statusById = new Map(purchasableOffers.map((item) => [item.offer.id, item.status]));
+    const matched = applyOfferFilters(
+      purchasableOffers.map(({ offer }) => offer),
+      filters,
+      now,
+    ).filter((offer) => !searchResults || searchResults.has(offer.id));
+
+    // With a query and no explicit sort, rank by relevance
+    if (searchResults && filters.sort === DEFAULT_OFFER_FILTERS.sort) {
+      matched.sort((a, b) => searchResults.get(b.id)!.score - searchResults.get(a.id)!.score);
+    }
+
+    return matched.map((offer) => ({
+      offer,
+      status: statusById.get(offer.id)!,
+      matches: searchResults?.get(offer.id)?.matches ?? {},
+    }));
+  }, [purchasableOffers, filters, searchResults, now]);
+
+  const pageCount = Math.max(Math.ceil(filteredOffers.length / OFFERS_PER_PAGE), 1);
+  const requestedPage = Number.parseInt(searchParams.get("page") ?? "1", 10);
+  const page = Number.isFinite(requestedPage) ? Math.min(Math.max(requestedPage, 1), pageCount) : 1;
+  const pageOffers = filteredOffers.slice((page - 1) * OFFERS_PER_PAGE, page * OFFERS_PER_PAGE);
+
+  const getPageHref = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (target > 1) params.set("page", String(target));
+    else params.delete("page");
+    const query = params.toString();
+    return query ? `?${query}` : "?";
+  };
+
+  const changePage = (target: number) => {
+    setSearchParams(getPageHref(target).slice(1));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const compareOffers = useMemo(
+    () =>
+      compareIds
+        .map((id) => purchasableOffers.find(({ offer }) => offer.id === id)?.offer)
+        .filter((offer): offer is Offer => !!offer),
+    [compareIds, purchasableOffers],
+  );
+
+  const handleAddToCart = (offer: Offer) => {
+    addToCart(offer, 1);
+    toast({ title: "Added to cart", description: `1 slot of "${offer.title}"` });
+  };
+
+  const toggleCompare = (offerId: bigint) =>
+    setCompareIds((current) =>
+      current.includes(offerId)
+        ? current.filter((id) => id !== offerId)
+        : [...current, offerId].slice(-2),
+    );
+
   const totalOffers = stats ? Number(stats.totalOffersCreated) : offers.length;
-  const activeOffers = stats ? Number(stats.activeOffersCount) : offers.length;
+  const activeOffers = purchasableOffers.length;
   const totalVolume = stats ? formatEther(stats.totalVolume) : "0";
   const formatDate = (value: bigint) => {
     if (!value) return "N/A";
@@ -84,7 +168,7 @@ export default function Marketplace() {
             <Input
               placeholder="Search offers..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => updateFilters({ q: e.target.value })}
               className="pl-10 bg-background/50 border-border/60"
             />
           </div>
@@ -136,16 +220,29 @@ export default function Marketplace() {
 
       {/* Offers Grid */}
       <div>
-        <h2 className="text-2xl font-bold mb-6">Active Offers</h2>
+        <h2 className="text-2xl font-bold mb-4">Active Offers</h2>
+        <OfferFilterBar
+          filters={filters}
+          resultCount={filteredOffers.length}
+          onChange={updateFilters}
+          onReset={() =>
+            setSearchParams(serializeOfferFilters({ ...DEFAULT_OFFER_FILTERS, q: filters.q }), {
+              replace: true,
+            })
+          }
+          onApplySearch={(query) => setSearchParams(query)}
+        />
         {isLoading ? (
           <p className="text-sm text-muted-foreground">Loading offers...</p>
         ) : filteredOffers.length === 0 ? (
           <Card className="p-6 border-dashed border-border/60 text-muted-foreground">
-            No offers available. Check back soon.
+            {purchasableOffers.length === 0
+              ? "No offers available. Check back soon."
+              : "No offers match your search and filters."}
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredOffers.map((offer) => (
+            {pageOffers.map(({ offer, status, matches }) => (
               <Card
                 key={offer.id.toString()}
                 className="group relative overflow-hidden border-border/40 bg-gradient-card backdrop-blur hover:shadow-glow transition-all duration-300"
@@ -154,13 +251,14 @@ export default function Marketplace() {
                   {/* Header */}
                   <div className="flex items-start justify-between gap-2">
                     <h3 className="font-semibold text-lg leading-tight group-hover:text-primary transition-colors">
-                      {offer.title}
+                      <HighlightedText text={offer.title} terms={matches.title} />
                     </h3>
+                    <OfferStatusBadge info={status} className="shrink-0" />
                   </div>
 
                   {/* Description */}
                   <p className="text-sm text-muted-foreground line-clamp-2">
-                    {offer.description}
+                    <HighlightedText text={offer.description} terms={matches.description} />
                   </p>
 
                   {/* Price */}
@@ -185,8 +283,8 @@ export default function Marketplace() {
                       <p className="text-xs text-muted-foreground mb-1">Expires</p>
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm font-medium">
-                          {formatDate(offer.expiresAt)}
+                        <span className="text-sm font-medium" title={formatDate(offer.expiresAt)}>
+                          in <OfferCountdown expiresAt={offer.expiresAt} />
                         </span>
                       </div>
                     </div>
@@ -199,16 +297,59 @@ export default function Marketplace() {
                     </Button>
                   </Link>
 
+                  {status.isPurchasable &&
+                    offer.creator.toLowerCase() !== account?.toLowerCase() && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => handleAddToCart(offer)}
+                      >
+                        <ShoppingCart className="h-4 w-4 mr-2" />
+                        Add to Cart
+                      </Button>
+                    )}
+
+                  {canCompare && isClientEncrypted(offer) && (
+                    <Button
+                      variant={compareIds.includes(offer.id) ? "secondary" : "outline"}
+                      size="sm"
+                      className="w-full"
+                      onClick={() => toggleCompare(offer.id)}
+                    >
+                      <Scale className="h-4 w-4 mr-2" />
+                      {compareIds.includes(offer.id) ? "Selected for Comparison" : "Compare Price"}
+                    </Button>
+                  )}
+
                   {/* Creator */}
                   <p className="text-xs text-muted-foreground break-all">
-                    By {offer.creator}
+                    By <HighlightedText text={offer.creator} terms={matches.creator} />
                   </p>
                 </div>
               </Card>
             ))}
           </div>
         )}
+
+        <OfferPagination
+          page={page}
+          pageCount={pageCount}
+          getHref={getPageHref}
+          onPageChange={changePage}
+        />
+        {isLoadingMore && !isLoading && (
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            Loading more offers... ({offers.length} so far)
+          </p>
+        )}
       </div>
+
+      <PriceComparePanel
+        selected={compareOffers}
+        onRemove={toggleCompare}
+        onClear={() => setCompareIds([])}
+      />
     </div>
   );
 }
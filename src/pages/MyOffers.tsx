@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,8 +6,28 @@ import { Lock, Users, DollarSign, Clock, TrendingUp, PowerOff, RefreshCw, Loader
 import { useToast } from "@/hooks/use-toast";
 import { formatEther } from "ethers";
 import { useWallet } from "@/hooks/use-wallet";
-import { fetchOffersByCreator, getContractWithSigner } from "@/lib/contract-client";
+import {
+  getContractWithSigner,
+  isLogHistoryWindowed,
+  type CreatorSale,
+} from "@/lib/contract-client";
+import {
+  useCreatorSales,
+  useOffersByCreator,
+  useRevealedOfferIds,
+} from "@/hooks/use-marketplace-queries";
+import { transactionManager } from "@/lib/transaction-manager";
+import { feeOverrides, preflightWrite } from "@/lib/transaction-preflight";
+import { useTransactionConfirm } from "@/hooks/use-transaction-confirm";
+import { TransactionConfirmDialog } from "@/components/TransactionConfirmDialog";
+import { decodeMarketplaceError, formatMarketplaceError } from "@/lib/marketplace-errors";
 import type { Offer } from "@/types/contract";
+import { RevealOfferTerms } from "@/components/RevealOfferTerms";
+import { deriveOfferStatus, hasEncryptedData } from "@/lib/offers";
+import { useNow } from "@/hooks/use-now";
+import { OfferStatusBadge } from "@/components/OfferStatusBadge";
+import { CreatorEarningsPanel } from "@/components/CreatorEarningsPanel";
+import { summarizeCreatorEarnings } from "@/lib/creator-analytics";
 
 const formatDate = (value: bigint) => {
   if (!value || value === 0n) return "N/A";
@@ -15,60 +35,59 @@ const formatDate = (value: bigint) => {
   return Number.isNaN(date.getTime()) ? "N/A" : date.toLocaleDateString();
 };
 
-const hasEncryptedData = (offer: Offer) =>
-  !!offer.encryptedPrice && offer.encryptedPrice !== "0x" && offer.encryptedPrice !== "0x00";
+const formatEth = (wei: bigint) => Number(formatEther(wei)).toFixed(4);
+
+const EMPTY_OFFERS: Offer[] = [];
+const NO_SALES: CreatorSale[] = [];
+const NO_REVEALED_IDS = new Set<bigint>();
 
 export default function MyOffers() {
   const { toast } = useToast();
-  const { account, provider, connectWallet, isConnecting } = useWallet();
-  const [offers, setOffers] = useState<Offer[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { account, provider, connectWallet, isConnecting, ensureNetwork } = useWallet();
+  const offersQuery = useOffersByCreator(account);
+  const revealedQuery = useRevealedOfferIds();
+  const salesQuery = useCreatorSales(account);
+  const { confirm, dialogProps } = useTransactionConfirm();
   const [deactivatingId, setDeactivatingId] = useState<bigint | null>(null);
+  const now = useNow();
 
-  const loadOffers = useCallback(async () => {
-    if (!account) {
-      setOffers([]);
-      return;
-    }
+  const offers = offersQuery.data ?? EMPTY_OFFERS;
+  const revealedIds = revealedQuery.data ?? NO_REVEALED_IDS;
+  const sales = salesQuery.data ?? NO_SALES;
+  const isLoading = offersQuery.isPending;
+  const isRefreshing =
+    offersQuery.isFetching || revealedQuery.isFetching || salesQuery.isFetching;
+  const error = offersQuery.error ? decodeMarketplaceError(offersQuery.error).message : null;
+  const salesError = salesQuery.error ? decodeMarketplaceError(salesQuery.error).message : null;
 
-    setIsLoading(true);
-    setError(null);
-    try {
-      const creatorOffers = await fetchOffersByCreator(account);
-      setOffers(creatorOffers);
-    } catch (err: any) {
-      setError(err?.message || "Failed to load your offers.");
-      setOffers([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [account]);
+  const refresh = () => {
+    offersQuery.refetch();
+    revealedQuery.refetch();
+    salesQuery.refetch();
+  };
 
-  useEffect(() => {
-    loadOffers();
-  }, [loadOffers]);
+  const earnings = useMemo(() => summarizeCreatorEarnings(sales, offers), [sales, offers]);
+  const earningsByOffer = useMemo(
+    () => new Map(earnings.byOffer.map((row) => [row.offerId, row])),
+    [earnings],
+  );
 
   const stats = useMemo(() => {
-    const totalRevenueWei = offers.reduce((sum, offer) => {
-      const soldSlots = offer.slots > offer.availableSlots ? offer.slots - offer.availableSlots : 0n;
-      return sum + offer.publicPrice * soldSlots;
-    }, 0n);
-
     const totalSold = offers.reduce((sum, offer) => {
       const soldSlots = offer.slots > offer.availableSlots ? offer.slots - offer.availableSlots : 0n;
       return sum + soldSlots;
     }, 0n);
 
-    const activeOffers = offers.filter((offer) => offer.isActive).length;
+    const activeOffers = offers.filter(
+      (offer) => deriveOfferStatus(offer, { now }).isPurchasable,
+    ).length;
 
     return {
-      totalRevenueEth: formatEther(totalRevenueWei),
       totalSoldSlots: Number(totalSold),
       activeOffers,
       totalOffers: offers.length,
     };
-  }, [offers]);
+  }, [offers, now]);
 
   const handleDeactivate = async (offerId: bigint) => {
     if (!provider) {
@@ -78,22 +97,32 @@ export default function MyOffers() {
 
     setDeactivatingId(offerId);
     try {
-      const contract = await getContractWithSigner(provider);
-      const tx = await contract.deactivateOffer(offerId);
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const contract = await getContractWithSigner(walletProvider);
+      const fee = await confirm({
+        title: `Deactivate offer #${offerId.toString()}`,
+        description: "The offer stops accepting purchases. This cannot be undone.",
+        preflight: () => preflightWrite(contract, "deactivateOffer", offerId),
+      });
+      if (!fee) return;
+      const tx = await contract.deactivateOffer(offerId, feeOverrides(fee));
       toast({
         title: "Transaction Submitted",
         description: `Deactivating offer... TX: ${tx.hash.slice(0, 10)}...`,
       });
-      await tx.wait();
+      await transactionManager.track(tx, {
+        kind: "deactivateOffer",
+        description: `Deactivate offer #${offerId.toString()}`,
+      });
       toast({
         title: "Offer Deactivated",
         description: `Offer #${offerId.toString()} is now inactive.`,
       });
-      await loadOffers();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Failed to deactivate offer",
-        description: error?.message || "Unknown error occurred.",
+        description: formatMarketplaceError(error),
         variant: "destructive",
       });
     } finally {
@@ -105,7 +134,7 @@ export default function MyOffers() {
     return (
       <div className="flex flex-col items-center justify-center min-h-[50vh] gap-4">
         <p className="text-muted-foreground">Connect your wallet to manage your offers.</p>
-        <Button onClick={connectWallet} disabled={isConnecting}>
+        <Button onClick={() => connectWallet()} disabled={isConnecting}>
           {isConnecting ? "Connecting..." : "Connect Wallet"}
         </Button>
       </div>
@@ -123,7 +152,7 @@ export default function MyOffers() {
             Manage your created offers and track performance using on-chain data.
           </p>
         </div>
-        <Button variant="outline" onClick={loadOffers} disabled={isLoading}>
+        <Button variant="outline" onClick={refresh} disabled={isRefreshing}>
           <RefreshCw className="h-4 w-4 mr-2" />
           Refresh
         </Button>
@@ -136,8 +165,16 @@ export default function MyOffers() {
               <DollarSign className="h-5 w-5 text-primary" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total Revenue</p>
-              <p className="text-2xl font-bold">{Number(stats.totalRevenueEth).toFixed(4)} ETH</p>
+              <p className="text-sm text-muted-foreground">Net Earnings</p>
+              <p className="text-2xl font-bold">
+                {salesQuery.isPending ? "--" : `${formatEth(earnings.totals.netWei)} ETH`}
+              </p>
+              {earnings.totals.feeWei > 0n && (
+                <p className="text-xs text-muted-foreground">
+                  {formatEth(earnings.totals.grossWei)} ETH gross ·{" "}
+                  {formatEth(earnings.totals.feeWei)} ETH fees
+                </p>
+              )}
             </div>
           </div>
         </Card>
@@ -182,6 +219,25 @@ export default function MyOffers() {
         </Card>
       )}
 
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Earnings</h2>
+        {isLogHistoryWindowed() && (
+          <p className="text-xs text-muted-foreground">
+            Only sales from recent blocks are shown because no deploy block is configured for this
+            network.
+          </p>
+        )}
+        {salesError ? (
+          <Card className="p-4 border-destructive/40 bg-destructive/10 text-sm text-destructive">
+            {salesError}
+          </Card>
+        ) : salesQuery.isPending ? (
+          <p className="text-muted-foreground text-sm">Loading sales...</p>
+        ) : (
+          <CreatorEarningsPanel sales={sales} earnings={earnings} />
+        )}
+      </div>
+
       <div className="space-y-4">
         <h2 className="text-2xl font-bold">Your Offers</h2>
         {isLoading ? (
@@ -194,6 +250,8 @@ export default function MyOffers() {
           offers.map((offer) => {
             const soldSlots =
               offer.slots > offer.availableSlots ? offer.slots - offer.availableSlots : 0n;
+            const status = deriveOfferStatus(offer, { now, revealed: revealedIds.has(offer.id) });
+            const offerEarnings = earningsByOffer.get(offer.id);
             const sellRate =
               Number(offer.slots) > 0
                 ? Math.round((Number(soldSlots) / Number(offer.slots)) * 100)
@@ -216,9 +274,7 @@ export default function MyOffers() {
                               FHE
                             </Badge>
                           )}
-                          <Badge variant={offer.isActive ? "default" : "secondary"}>
-                            {offer.isActive ? "Active" : "Inactive"}
-                          </Badge>
+                          <OfferStatusBadge info={status} showCountdown />
                         </div>
                         <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
                           <span>Price: {Number(formatEther(offer.publicPrice)).toFixed(4)} ETH</span>
@@ -238,12 +294,12 @@ export default function MyOffers() {
                         <p className="text-lg font-bold text-accent">{Number(soldSlots)} slots</p>
                       </div>
                       <div>
-                        <p className="text-xs text-muted-foreground mb-1">Revenue</p>
+                        <p className="text-xs text-muted-foreground mb-1">Net Revenue</p>
                         <p className="text-lg font-bold text-primary">
-                          {Number(
-                            formatEther(offer.publicPrice * (soldSlots > 0n ? soldSlots : 0n)),
-                          ).toFixed(4)}{" "}
-                          ETH
+                          {formatEth(offerEarnings?.netWei ?? 0n)} ETH
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {offerEarnings?.buyers ?? 0} buyer(s)
                         </p>
                       </div>
                       <div>
@@ -277,6 +333,9 @@ export default function MyOffers() {
                         View Details
                       </a>
                     </Button>
+                    {hasEncryptedData(offer) && (
+                      <RevealOfferTerms offerId={offer.id} className="w-full lg:w-56" />
+                    )}
                   </div>
                 </div>
               </Card>
@@ -284,6 +343,8 @@ export default function MyOffers() {
           })
         )}
       </div>
+
+      <TransactionConfirmDialog {...dialogProps} />
     </div>
   );
 }
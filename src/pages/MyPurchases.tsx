@@ -1,11 +1,18 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ExternalLink, Download, Clock, DollarSign, RefreshCw, Users } from "lucide-react";
 import { formatEther } from "ethers";
 import { useWallet } from "@/hooks/use-wallet";
-import { fetchPurchaseHistory, type PurchaseHistoryItem } from "@/lib/contract-client";
+import { getExplorerTxUrl } from "@/lib/networks";
+import {
+  isLogHistoryWindowed,
+  type PurchaseHistoryItem,
+  type PurchaseTxUnresolvedReason,
+} from "@/lib/contract-client";
+import { usePurchaseHistory } from "@/hooks/use-marketplace-queries";
+import { decodeMarketplaceError } from "@/lib/marketplace-errors";
 
 const formatTimestamp = (value: bigint) => {
   if (!value || value === 0n) return "N/A";
@@ -13,33 +20,25 @@ const formatTimestamp = (value: bigint) => {
   return Number.isNaN(date.getTime()) ? "N/A" : date.toLocaleString();
 };
 
-export default function MyPurchases() {
-  const { account, connectWallet, isConnecting } = useWallet();
-  const [purchases, setPurchases] = useState<PurchaseHistoryItem[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+const UNRESOLVED_TX_LABELS: Record<PurchaseTxUnresolvedReason, string> = {
+  "outside-log-range": "Not available (purchased before the scanned block range)",
+  "event-mismatch": "Not available (purchase event could not be matched)",
+  "log-query-failed": "Not available (event lookup failed, try refreshing)",
+};
 
-  const loadPurchases = useCallback(async () => {
-    if (!account) {
-      setPurchases([]);
-      return;
-    }
-    setIsLoading(true);
-    setError(null);
-    try {
-      const history = await fetchPurchaseHistory(account);
-      setPurchases(history);
-    } catch (err: any) {
-      setError(err?.message || "Failed to load purchase history.");
-      setPurchases([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [account]);
+const EMPTY_PURCHASES: PurchaseHistoryItem[] = [];
 
-  useEffect(() => {
-    loadPurchases();
-  }, [loadPurchases]);
+export default function MyPurchases() {
+  const { account, connectWallet, isConnecting } = useWallet();
+  const purchasesQuery = usePurchaseHistory(account);
+  const purchases = purchasesQuery.data ?? EMPTY_PURCHASES;
+  const isLoading = purchasesQuery.isPending;
+  const error = purchasesQuery.error
+    ? decodeMarketplaceError(purchasesQuery.error).message
+    : null;
+  const hasOlderPurchases =
+    isLogHistoryWindowed() &&
+    purchases.some((purchase) => purchase.txUnresolvedReason === "outside-log-range");
 
   const stats = useMemo(() => {
     const totalSpentWei = purchases.reduce((sum, purchase) => sum + purchase.totalPrice, 0n);
@@ -68,7 +67,7 @@ export default function MyPurchases() {
           : "N/A";
         const totalPaid = Number(formatEther(purchase.totalPrice)).toFixed(6);
         const timestamp = formatTimestamp(purchase.timestamp);
-        const txHash = purchase.txHash ?? "";
+        const txHash = purchase.txHash ?? `unresolved: ${purchase.txUnresolvedReason}`;
         return [title, quantity, pricePerSlot, totalPaid, timestamp, txHash]
           .map((value) => `"${String(value).replace(/"/g, '""')}"`)
           .join(",");
@@ -88,7 +87,7 @@ export default function MyPurchases() {
     return (
       <div className="flex flex-col items-center justify-center min-h-[50vh] gap-4">
         <p className="text-muted-foreground">Connect your wallet to view your purchases.</p>
-        <Button onClick={connectWallet} disabled={isConnecting}>
+        <Button onClick={() => connectWallet()} disabled={isConnecting}>
           {isConnecting ? "Connecting..." : "Connect Wallet"}
         </Button>
       </div>
@@ -109,7 +108,11 @@ export default function MyPurchases() {
             <Download className="h-4 w-4 mr-2" />
             Export Data
           </Button>
-          <Button variant="outline" onClick={loadPurchases} disabled={isLoading}>
+          <Button
+            variant="outline"
+            onClick={() => purchasesQuery.refetch()}
+            disabled={purchasesQuery.isFetching}
+          >
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
@@ -162,6 +165,12 @@ export default function MyPurchases() {
 
       <div className="space-y-4">
         <h2 className="text-2xl font-bold">Purchase History</h2>
+        {hasOlderPurchases && (
+          <p className="text-xs text-muted-foreground">
+            Transactions are only looked up in recent blocks because no deploy block is configured
+            for this network, so older purchases have no transaction link.
+          </p>
+        )}
         {isLoading ? (
           <p className="text-muted-foreground text-sm">Loading purchases...</p>
         ) : purchases.length === 0 ? (
@@ -173,6 +182,7 @@ export default function MyPurchases() {
             {purchases.map((purchase) => {
               const title = purchase.offer?.title ?? `Offer #${purchase.offerId.toString()}`;
               const txHash = purchase.txHash;
+              const explorerUrl = txHash ? getExplorerTxUrl(txHash) : null;
               return (
                 <Card
                   key={`${purchase.id.toString()}-${purchase.offerId.toString()}`}
@@ -213,7 +223,7 @@ export default function MyPurchases() {
                       <div className="pt-2 border-t border-border/40">
                         <p className="text-xs text-muted-foreground mb-1">Transaction Hash</p>
                         <code className="text-xs bg-background/50 px-2 py-1 rounded block overflow-x-auto">
-                          {txHash ?? "Not available"}
+                          {txHash ?? UNRESOLVED_TX_LABELS[purchase.txUnresolvedReason]}
                         </code>
                       </div>
                     </div>
@@ -226,14 +236,11 @@ export default function MyPurchases() {
                         variant="outline"
                         size="sm"
                         className="w-full"
-                        disabled={!txHash}
-                        onClick={() =>
-                          txHash &&
-                          window.open(`https://sepolia.etherscan.io/tx/${txHash}`, "_blank")
-                        }
+                        disabled={!explorerUrl}
+                        onClick={() => explorerUrl && window.open(explorerUrl, "_blank")}
                       >
                         <ExternalLink className="h-4 w-4 mr-2" />
-                        View on Etherscan
+                        View on Explorer
                       </Button>
                     </div>
                   </div>
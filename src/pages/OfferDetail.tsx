@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,72 +13,55 @@ import {
   ArrowLeft,
   ExternalLink,
   AlertCircle,
+  Loader2,
+  ShoppingCart,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { useQueryClient } from "@tanstack/react-query";
 import type { Offer } from "@/types/contract";
-import { fetchOfferById, fetchEncryptedHandles } from "@/lib/contract-client";
+import { getContractWithSigner, parseOfferPurchasedEvent } from "@/lib/contract-client";
+import {
+  marketplaceKeys,
+  useEncryptedHandles,
+  useOffer,
+  useRevealedOfferIds,
+} from "@/hooks/use-marketplace-queries";
+import { transactionManager } from "@/lib/transaction-manager";
+import { decodeMarketplaceError, formatMarketplaceError } from "@/lib/marketplace-errors";
+import { useNetwork } from "@/hooks/use-network";
 import { formatEther } from "ethers";
+import { getExplorerTxUrl } from "@/lib/networks";
+import { RevealOfferTerms } from "@/components/RevealOfferTerms";
+import { OfferRevealPanel } from "@/components/OfferRevealPanel";
+import { OfferStatusBadge } from "@/components/OfferStatusBadge";
+import { useNow } from "@/hooks/use-now";
+import { usePurchaseCart } from "@/hooks/use-purchase-cart";
+import { deriveOfferStatus, formatCountdown, OFFER_STATUS_LABELS } from "@/lib/offers";
 
 export default function OfferDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [offer, setOffer] = useState<Offer | null>(null);
-  const [encryptedHandles, setEncryptedHandles] = useState<{
-    price: string;
-    duration: string;
-    slots: string;
-  } | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { hasProvider, account, connectWallet, ensureNetwork } = useWallet();
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+  const offerQuery = useOffer(id);
+  const { data: encryptedHandles } = useEncryptedHandles(id);
+  const { data: revealedIds } = useRevealedOfferIds();
   const [quantity, setQuantity] = useState(1);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const { addToCart } = usePurchaseCart();
+  const now = useNow();
 
-  useEffect(() => {
-    if (!id) return;
-    let active = true;
-
-    const loadOffer = async () => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const fetchedOffer = await fetchOfferById(id);
-        if (!active) return;
-
-        if (!fetchedOffer) {
-          setError("Offer not found on the contract.");
-          setOffer(null);
-          return;
-        }
-
-        setOffer(fetchedOffer);
-
-        fetchEncryptedHandles(id)
-          .then((handles) => {
-            if (active) {
-              setEncryptedHandles(handles);
-            }
-          })
-          .catch(() => {
-            /* ignore encrypted fetch errors */
-          });
-      } catch (err: any) {
-        if (!active) return;
-        setError(err?.message || "Failed to load offer.");
-        setOffer(null);
-      } finally {
-        if (active) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    loadOffer();
-    return () => {
-      active = false;
-    };
-  }, [id]);
+  const offer = offerQuery.data ?? null;
+  const isLoading = offerQuery.isPending && offerQuery.fetchStatus !== "idle";
+  const error = offerQuery.error
+    ? decodeMarketplaceError(offerQuery.error).message
+    : offerQuery.isSuccess && !offer
+      ? "Offer not found on the contract."
+      : null;
+  const isRevealed = !!offer && !!revealedIds?.has(offer.id);
 
   if (isLoading) {
     return (
@@ -102,30 +85,108 @@ export default function OfferDetail() {
     );
   }
 
-  const handlePurchase = () => {
+  const maxQuantity = Number(offer.availableSlots);
+  const status = deriveOfferStatus(offer, { now, revealed: isRevealed });
+  const isCreator = !!account && account.toLowerCase() === offer.creator.toLowerCase();
+
+  const handleAddToCart = () => {
+    if (quantity < 1 || quantity > maxQuantity) {
+      toast({
+        title: "Invalid quantity",
+        description: `Choose between 1 and ${maxQuantity} slot(s).`,
+        variant: "destructive",
+      });
+      return;
+    }
+    addToCart(offer, quantity);
+    toast({ title: "Added to cart", description: `${quantity} slot(s) of "${offer.title}"` });
+  };
+
+  const handlePurchase = async () => {
+    if (!hasProvider) {
+      toast({
+        title: "Wallet not detected",
+        description: "Install MetaMask or an EVM-compatible wallet to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const buyer = account ?? (await connectWallet());
+    if (!buyer) return;
+
+    if (quantity < 1 || quantity > maxQuantity) {
+      toast({
+        title: "Invalid quantity",
+        description: `Choose between 1 and ${maxQuantity} slot(s).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsPurchasing(true);
+    try {
+      const walletProvider = await ensureNetwork();
+      if (!walletProvider) return;
+      const contract = await getContractWithSigner(walletProvider);
+      const slots = BigInt(quantity);
+      const tx = await contract.purchaseOffer(offer.id, slots, {
+        value: offer.publicPrice * slots,
+      });
 
-    // Simulate purchase transaction
-    setTimeout(() => {
-      setIsPurchasing(false);
+      toast({
+        title: "Transaction Submitted",
+        description: `Purchasing slots... TX: ${tx.hash.slice(0, 10)}...`,
+      });
+
+      const { receipt } = await transactionManager.track(tx, {
+        kind: "purchaseOffer",
+        description: `Buy ${quantity} slot(s) of offer #${offer.id.toString()}`,
+      });
+      const purchased = parseOfferPurchasedEvent(receipt);
+
+      if (purchased) {
+        queryClient.setQueryData<Offer | null>(
+          marketplaceKeys.offer(network.key, id),
+          (current) =>
+            current && {
+              ...current,
+              availableSlots: purchased.slotsLeft,
+              isActive: purchased.slotsLeft > 0n && current.isActive,
+            },
+        );
+        setQuantity(1);
+      }
+
+      const explorerUrl = getExplorerTxUrl(tx.hash);
       toast({
         title: "Purchase Successful!",
         description: (
           <div className="space-y-2">
             <p>You've successfully purchased {quantity} slot(s).</p>
-            <a
-              href="https://sepolia.etherscan.io/tx/0x..."
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center gap-1 text-accent hover:underline text-sm"
-            >
-              View on Etherscan
-              <ExternalLink className="h-3 w-3" />
-            </a>
+            {explorerUrl && (
+              <a
+                href={explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-accent hover:underline text-sm"
+              >
+                View on Explorer
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
           </div>
         ),
       });
-    }, 3000);
+    } catch (error) {
+      toast({
+        title: "Purchase failed",
+        description: formatMarketplaceError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsPurchasing(false);
+    }
   };
 
   const pricePerSlot = formatEther(offer.publicPrice);
@@ -153,10 +214,13 @@ export default function OfferDetail() {
                     Created by {offer.creator}
                   </p>
                 </div>
-                <Badge variant="cyber" className="text-base px-4 py-2">
-                  <Lock className="h-4 w-4 mr-2" />
-                  FHE Enabled
-                </Badge>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                  <Badge variant="cyber" className="text-base px-4 py-2">
+                    <Lock className="h-4 w-4 mr-2" />
+                    FHE Enabled
+                  </Badge>
+                  <OfferStatusBadge info={status} />
+                </div>
               </div>
 
               <div className="h-px bg-border/40" />
@@ -205,6 +269,11 @@ export default function OfferDetail() {
                     <p className="text-xl font-bold">
                       {new Date(Number(offer.expiresAt) * 1000).toLocaleDateString()}
                     </p>
+                    <p className="text-sm text-muted-foreground">
+                      {status.secondsLeft > 0
+                        ? `${formatCountdown(status.secondsLeft)} left`
+                        : "Expired"}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -243,10 +312,15 @@ export default function OfferDetail() {
                   <p className="text-xs text-muted-foreground mt-3">
                     These values are encrypted on-chain and will be decrypted after purchase.
                   </p>
+                  {isCreator && <RevealOfferTerms offerId={offer.id} className="pt-2" />}
                 </div>
               </div>
             </Card>
           )}
+
+          {isCreator && encryptedHandles && (
+            <OfferRevealPanel offerId={offer.id} />
+          )}
         </div>
 
         {/* Purchase Sidebar */}
@@ -261,13 +335,13 @@ export default function OfferDetail() {
                   id="quantity"
                   type="number"
                   min="1"
-                  max={offer.remainingSlots}
+                  max={maxQuantity}
                   value={quantity}
                   onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
                   className="bg-background/50"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Maximum: {offer.remainingSlots} slots available
+                  Maximum: {maxQuantity} slots available
                 </p>
               </div>
 
@@ -276,9 +350,7 @@ export default function OfferDetail() {
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Price per slot</span>
-                  <span className="font-medium">
-                    {offer.isEncrypted ? " Encrypted" : `${offer.price} ETH`}
-                  </span>
+                  <span className="font-medium">{pricePerSlot} ETH</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Quantity</span>
@@ -287,9 +359,7 @@ export default function OfferDetail() {
                 <div className="h-px bg-border/40" />
                 <div className="flex justify-between">
                   <span className="font-semibold">Total</span>
-                  <span className="text-xl font-bold text-primary">
-                    {offer.isEncrypted ? "" : `${totalPrice} ETH`}
-                  </span>
+                  <span className="text-xl font-bold text-primary">{totalPrice} ETH</span>
                 </div>
               </div>
 
@@ -297,20 +367,35 @@ export default function OfferDetail() {
                 variant="cyber"
                 className="w-full"
                 onClick={handlePurchase}
-                disabled={isPurchasing || offer.remainingSlots === 0}
+                disabled={isPurchasing || !status.isPurchasable}
               >
-                {isPurchasing
-                  ? "Processing..."
-                  : offer.remainingSlots === 0
-                  ? "Sold Out"
-                  : "Purchase Now"}
+                {isPurchasing ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Processing...
+                  </span>
+                ) : !status.isPurchasable ? (
+                  OFFER_STATUS_LABELS[status.status]
+                ) : (
+                  "Purchase Now"
+                )}
               </Button>
 
-              {!offer.isEncrypted && (
-                <p className="text-xs text-muted-foreground text-center">
-                  Excess ETH will be automatically refunded
-                </p>
+              {!isCreator && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleAddToCart}
+                  disabled={!status.isPurchasable}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Add to Cart
+                </Button>
               )}
+
+              <p className="text-xs text-muted-foreground text-center">
+                Excess ETH will be automatically refunded
+              </p>
             </div>
           </Card>
         </div>
@@ -0,0 +1,104 @@
+/**
+ * Type-level helpers that turn a `const` ABI literal into TypeScript types.
+ * Only the Solidity types used by the marketplace ABI are mapped.
+ */
+
+import type { BytesLike } from "ethers";
+
+export type AbiParameter = {
+  readonly name: string;
+  readonly type: string;
+  readonly internalType?: string;
+  readonly indexed?: boolean;
+};
+
+export type AbiItem = {
+  readonly type: string;
+  readonly name?: string;
+  readonly inputs?: readonly AbiParameter[];
+  readonly outputs?: readonly AbiParameter[];
+  readonly stateMutability?: string;
+  readonly anonymous?: boolean;
+};
+
+// Solidity -> TypeScript, for values we send
+export type SolidityInput<T extends string> = T extends `${infer Inner}[]`
+  ? readonly SolidityInput<Inner>[]
+  : T extends `uint${string}` | `int${string}`
+  ? bigint | number
+  : T extends "address" | "string"
+  ? string
+  : T extends "bool"
+  ? boolean
+  : T extends `bytes${string}`
+  ? BytesLike
+  : unknown;
+
+// Solidity -> TypeScript, for values ethers decodes
+export type SolidityOutput<T extends string> = T extends `${infer Inner}[]`
+  ? SolidityOutput<Inner>[]
+  : T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends "address" | "string" | `bytes${string}`
+  ? string
+  : T extends "bool"
+  ? boolean
+  : unknown;
+
+export type AbiFunction<A extends readonly AbiItem[]> = Extract<A[number], { type: "function" }>;
+export type AbiEvent<A extends readonly AbiItem[]> = Extract<A[number], { type: "event" }>;
+
+export type AbiFunctionName<A extends readonly AbiItem[]> = AbiFunction<A>["name"];
+export type AbiReadFunctionName<A extends readonly AbiItem[]> = Extract<
+  AbiFunction<A>,
+  { stateMutability: "view" | "pure" }
+>["name"];
+export type AbiWriteFunctionName<A extends readonly AbiItem[]> = Exclude<
+  AbiFunctionName<A>,
+  AbiReadFunctionName<A>
+>;
+export type AbiEventName<A extends readonly AbiItem[]> = AbiEvent<A>["name"];
+
+type InputTuple<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends AbiParameter ? SolidityInput<P[K]["type"]> : never;
+};
+
+type OutputTuple<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends AbiParameter ? SolidityOutput<P[K]["type"]> : never;
+};
+
+type NamedOutputs<P extends readonly AbiParameter[]> = {
+  [Param in P[number] as Param["name"]]: SolidityOutput<Param["type"]>;
+};
+
+// One output -> the value; unnamed outputs -> tuple; named outputs (structs) -> object
+type Outputs<P extends readonly AbiParameter[]> = P extends readonly []
+  ? void
+  : P extends readonly [AbiParameter]
+  ? SolidityOutput<P[0]["type"]>
+  : "" extends P[number]["name"]
+  ? OutputTuple<P>
+  : NamedOutputs<P>;
+
+export type AbiFunctionArgs<
+  A extends readonly AbiItem[],
+  N extends AbiFunctionName<A>,
+> = InputTuple<Extract<AbiFunction<A>, { name: N }>["inputs"]>;
+
+export type AbiFunctionResult<
+  A extends readonly AbiItem[],
+  N extends AbiFunctionName<A>,
+> = Outputs<Extract<AbiFunction<A>, { name: N }>["outputs"]>;
+
+export type AbiEventArgs<A extends readonly AbiItem[], N extends AbiEventName<A>> = NamedOutputs<
+  Extract<AbiEvent<A>, { name: N }>["inputs"]
+>;
+
+// Indexed event parameters, each optional (null matches anything, an array any of its
+// values) when building filters
+export type AbiEventFilterArgs<A extends readonly AbiItem[], N extends AbiEventName<A>> = {
+  [Param in Extract<Extract<AbiEvent<A>, { name: N }>["inputs"][number], { indexed: true }> as Param["name"]]?:
+    | SolidityInput<Param["type"]>
+    | SolidityInput<Param["type"]>[]
+    | null;
+};
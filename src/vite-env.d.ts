@@ -4,7 +4,19 @@ interface ImportMetaEnv {
   readonly VITE_CONTRACT_ADDRESS?: string;
   readonly VITE_SEPOLIA_RPC_URL?: string;
   readonly VITE_SEPOLIA_CHAIN_ID?: string;
+  readonly VITE_SEPOLIA_FALLBACK_RPC_URLS?: string;
+  readonly VITE_SEPOLIA_WS_URL?: string;
+  readonly VITE_SEPOLIA_CONFIRMATIONS?: string;
   readonly VITE_DEPLOY_BLOCK?: string;
+  readonly VITE_DEFAULT_NETWORK?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_LOCAL_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCAL_DEPLOY_BLOCK?: string;
+  readonly VITE_LOCAL_WS_URL?: string;
+  readonly VITE_LOCAL_CONFIRMATIONS?: string;
+  readonly VITE_MULTICALL_ADDRESS?: string;
+  readonly VITE_RPC_BATCH_SIZE?: string;
+  readonly VITE_RPC_BATCH_CONCURRENCY?: string;
   readonly VITE_FHE_ACL_ADDRESS?: string;
   readonly VITE_FHE_KMS_ADDRESS?: string;
   readonly VITE_FHE_INPUT_VERIFIER_ADDRESS?: string;
@@ -14,6 +26,13 @@ interface ImportMetaEnv {
   readonly VITE_FHE_CHAIN_ID?: string;
   readonly VITE_FHE_RELAYER_URL?: string;
   readonly VITE_FHE_NETWORK_RPC?: string;
+  readonly VITE_LOCAL_FHE_ACL_ADDRESS?: string;
+  readonly VITE_LOCAL_FHE_KMS_ADDRESS?: string;
+  readonly VITE_LOCAL_FHE_INPUT_VERIFIER_ADDRESS?: string;
+  readonly VITE_LOCAL_FHE_DECRYPTION_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCAL_FHE_INPUT_VERIFICATION_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCAL_FHE_GATEWAY_CHAIN_ID?: string;
+  readonly VITE_LOCAL_FHE_RELAYER_URL?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests cover the pure lib modules, so none of the app's SDK polyfills are needed
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // fhe.test.ts is a manual check run from the browser console
+    exclude: ["src/lib/fhe.test.ts"],
+  },
+});